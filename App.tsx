@@ -1,131 +1,705 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { BIBLE_BOOKS } from './constants';
-import { BibleBook, ReadingProgress, AudioState } from './types';
-import { fetchChapterText, generateSpeech, decodeBase64, decodeAudioData } from './geminiService';
-import { Play, Pause, CheckCircle, Menu, X, BookOpen, Search, Check, Volume2, Loader2, ChevronRight, List, Type } from 'lucide-react';
+import { BIBLE_BOOKS, TRANSLATIONS } from './constants';
+import { BibleBook, ReadingProgress, AudioState, ChapterContent, VerseTiming, SleepTimerOption, ActivePlan, ChapterRef, CompletionSource, ListeningStats, MemoryVerse, AppearanceSettings, ScriptureReference, SpeechChunk, StudyPassage, TtsEngineId, TtsSettings, VerseAnnotation } from './types';
+import { fetchChapterText, isGeneratedText } from './textProviders';
+import OfflineManager from './OfflineManager';
+import AudioControls from './AudioControls';
+import { SLEEP_FADE_SECONDS } from './audioPlayer';
+import { GeminiTtsEngine, loadWithFallback, NarrationPlayer, selectTtsEngine, TTS_ENGINE_LABELS, TtsEngine } from './ttsEngine';
+import { WebSpeechEngine } from './webSpeechEngine';
+import { GEMINI_ERROR_MESSAGES, GeminiError, toGeminiError } from './geminiErrors';
+import { MediaActions, setMediaActions, setMediaMetadata, setMediaPlaybackState, setMediaPosition } from './mediaSession';
+import { prefetchChapter } from './offlineDownload';
+import { getPlanStatus, resolvePlan } from './readingPlans';
+import ReadingPlanPanel from './ReadingPlanPanel';
+import StatsPanel from './StatsPanel';
+import SearchPanel from './SearchPanel';
+import { invalidateSearchIndex } from './bibleSearch';
+import { getTranslation, localizedBookName } from './translations';
+import NotesPanel from './NotesPanel';
+import VerseToolbar from './VerseToolbar';
+import SettingsPanel from './SettingsPanel';
+import AudioExportPanel from './AudioExportPanel';
+import StudyPanel from './StudyPanel';
+import MemoryPanel from './MemoryPanel';
+import { buildSpeechChunks, chapterAudioKey, speechOptionsFor } from './narration';
+import { AnnotationChange, getChapterAnnotations, highlightClass, updateAnnotations } from './annotations';
+import { createMemoryVerse, deleteMemoryVerse, getMemoryVerses, isDue, memoryVerseKey, saveMemoryVerse } from './memoryVerses';
+import {
+  addListeningTime, completedChapterCount, isChapterCompleted, loadListeningStats, loadProgress,
+  saveListeningStats, saveProgress, setChapterCompleted,
+} from './progress';
+import { FONT_SIZE_RANGE, loadSettings, saveSettings } from './settings';
+import { applyTheme, READER_FONTS, READER_MARGINS } from './appearance';
+import { exportBackup, importBackup } from './backup';
+import { setDatabaseBlockedHandler } from './idb';
+import { formatReference, formatVerseList, parseHash, parseReference, referenceToHash, searchBooks, toVerseRange } from './referenceParser';
+import { findVerseAt, getAdjacentChapter, getHeadingBefore } from './scripture';
+import { Play, Pause, CheckCircle, Menu, X, BookOpen, Search, Check, Volume2, Loader2, ChevronRight, List, Type, Sparkles, CalendarDays, BarChart3, TextSearch, NotebookPen, Bookmark, StickyNote, Settings, AlertTriangle, RotateCw, Lightbulb, Brain } from 'lucide-react';
+
+const PARTIAL_AUDIO_NOTICE = '部分經文語音產生失敗，朗讀會在該處提前結束。';
 
 const App: React.FC = () => {
   // --- States ---
-  const [selectedBook, setSelectedBook] = useState<BibleBook>(BIBLE_BOOKS[0]);
-  const [selectedChapter, setSelectedChapter] = useState<number>(1);
-  const [chapterContent, setChapterContent] = useState<string>('');
+  const [initialRef] = useState(() => parseHash(window.location.hash));
+  const [selectedBook, setSelectedBook] = useState<BibleBook>(
+    () => BIBLE_BOOKS.find(b => b.id === initialRef?.bookId) ?? BIBLE_BOOKS[0]
+  );
+  const [selectedChapter, setSelectedChapter] = useState<number>(initialRef?.chapter ?? 1);
+  const [linkedVerses, setLinkedVerses] = useState<[number, number] | null>(() => initialRef && toVerseRange(initialRef)); // Verses opened from a reference or link
+  const [chapterContent, setChapterContent] = useState<ChapterContent | null>(null);
+  const [loadError, setLoadError] = useState<GeminiError | null>(null);
   const [progress, setProgress] = useState<ReadingProgress>({});
+  const [listeningStats, setListeningStats] = useState<ListeningStats>({ totalSeconds: 0, byDate: {} });
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
   const [audioState, setAudioState] = useState<AudioState>(AudioState.IDLE);
   const [isLoadingContent, setIsLoadingContent] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const [memoryVerses, setMemoryVerses] = useState<MemoryVerse[]>([]);
+  const [memoryVersion, setMemoryVersion] = useState(0); // Bumped when memory verses are added, reviewed or removed
+  const [studyPassage, setStudyPassage] = useState<StudyPassage | null>(null); // Passage shown in the study panel while it is open
+  const [selectedVerses, setSelectedVerses] = useState<number[]>([]); // Verses chosen for highlighting or notes
+  const [chapterAnnotations, setChapterAnnotations] = useState<Record<number, VerseAnnotation>>({});
+  const [annotationsVersion, setAnnotationsVersion] = useState(0); // Bumped when annotations change outside the reader
+  const [initialSettings] = useState(loadSettings);
+  const [activePlan, setActivePlan] = useState<ActivePlan | null>(initialSettings.plan);
   const [sidebarSearch, setSidebarSearch] = useState('');
-  const [fontSize, setFontSize] = useState(20); // Default font size in px
+  const [fontSize, setFontSize] = useState(initialSettings.fontSize); // px
+  const [appearance, setAppearance] = useState<AppearanceSettings>(initialSettings.appearance);
+  const [translation, setTranslation] = useState(initialSettings.translation);
+  const [parallelTranslation, setParallelTranslation] = useState(initialSettings.parallelTranslation);
+  const [tts, setTts] = useState<TtsSettings>(initialSettings.tts); // Narration voice, style and language
+  const [ttsEngine, setTtsEngine] = useState<TtsEngineId>(initialSettings.ttsEngine);
+  const [audioNotice, setAudioNotice] = useState<{ message: string; canRetry?: boolean } | null>(null); // Narration failure or engine fallback
+  const [parallelContent, setParallelContent] = useState<ChapterContent | null>(null); // Second column in parallel view
+  const [textVersion, setTextVersion] = useState(0); // Bumped to reload the chapter, e.g. after an import or a retry
+  const [playbackPosition, setPlaybackPosition] = useState(0); // Seconds
+  const [playbackDuration, setPlaybackDuration] = useState(0); // Seconds, 0 when no audio is loaded
+  const [playbackRate, setPlaybackRate] = useState(initialSettings.playbackRate);
+  const [isBuffering, setIsBuffering] = useState(false); // Playback is waiting for the next TTS chunk
+  const [currentVerse, setCurrentVerse] = useState<number | null>(null); // Verse being narrated
+  const [continuousPlay, setContinuousPlay] = useState(initialSettings.continuousPlay);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimerOption>('off');
+  const [sleepTimerEndsAt, setSleepTimerEndsAt] = useState<number | null>(null); // Epoch ms for timed options
+  const [isDatabaseBlocked, setIsDatabaseBlocked] = useState(false); // Another tab holds an older version of the local database
 
   // --- Refs ---
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const enginesRef = useRef<TtsEngine[] | null>(null);
+  const playerRef = useRef<NarrationPlayer | null>(null); // Player of the engine that loaded the current chapter
+  const loadedAudioKeyRef = useRef<string | null>(null); // Cache key of the audio held by the player
+  const partialAudioRef = useRef<{ key: string; engine: TtsEngine; remaining: SpeechChunk[] } | null>(null); // Chunks a partial load left out
+  const audioRequestRef = useRef(0); // Incremented to discard stale speech requests
+  const audioAbortRef = useRef<AbortController | null>(null); // Cancels speech requests in flight
+  const verseTimingsRef = useRef<VerseTiming[]>([]); // Estimated verse positions on the loaded audio timeline
+  const autoPlayNextRef = useRef(false); // Start narration once the next chapter has loaded
+  const chapterEndedRef = useRef<() => void>(() => {});
+  const mediaActionsRef = useRef<MediaActions>({});
+  const continuousPlayRef = useRef(initialSettings.continuousPlay);
+  const replaceHistoryRef = useRef(false); // Update the URL without adding a history entry
 
   // --- Persistence ---
   useEffect(() => {
-    const savedProgress = localStorage.getItem('bible-progress');
-    if (savedProgress) setProgress(JSON.parse(savedProgress));
-    
-    const savedFontSize = localStorage.getItem('bible-font-size');
-    if (savedFontSize) setFontSize(parseInt(savedFontSize, 10));
+    setDatabaseBlockedHandler(setIsDatabaseBlocked);
+    return () => setDatabaseBlockedHandler(null);
+  }, []);
+
+  useEffect(() => {
+    setProgress(loadProgress());
+    setListeningStats(loadListeningStats());
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('bible-progress', JSON.stringify(progress));
+    saveProgress(progress);
   }, [progress]);
 
   useEffect(() => {
-    localStorage.setItem('bible-font-size', fontSize.toString());
-  }, [fontSize]);
+    saveListeningStats(listeningStats);
+  }, [listeningStats]);
+
+  useEffect(() => {
+    saveSettings({ fontSize, appearance, playbackRate, continuousPlay, plan: activePlan, translation, parallelTranslation, tts, ttsEngine });
+  }, [fontSize, appearance, playbackRate, continuousPlay, activePlan, translation, parallelTranslation, tts, ttsEngine]);
+
+  useEffect(() => applyTheme(appearance.theme), [appearance.theme]);
+
+  useEffect(() => {
+    continuousPlayRef.current = continuousPlay;
+  }, [continuousPlay]);
+
+  const handleImportBackup = async (file: File) => {
+    const result = await importBackup(file);
+    setProgress(result.progress);
+    setListeningStats(result.listening);
+    setAnnotationsVersion(v => v + 1);
+    if (result.settingsApplied) {
+      const settings = loadSettings();
+      setFontSize(settings.fontSize);
+      setAppearance(settings.appearance);
+      changePlaybackRate(settings.playbackRate);
+      setContinuousPlay(settings.continuousPlay);
+      setActivePlan(settings.plan);
+      setTranslation(settings.translation);
+      setParallelTranslation(settings.parallelTranslation);
+      setTts(settings.tts);
+      changeTtsEngine(settings.ttsEngine);
+    }
+    return result;
+  };
+
+  // --- Navigation & URL ---
+  const navigateTo = (ref: ScriptureReference) => {
+    const book = BIBLE_BOOKS.find(b => b.id === ref.bookId);
+    if (!book) return;
+    setSelectedBook(book);
+    setSelectedChapter(ref.chapter);
+    setLinkedVerses(toVerseRange(ref));
+  };
+
+  // Mirror the current passage in the hash so it can be shared and the back button works
+  useEffect(() => {
+    const ref: ScriptureReference = { bookId: selectedBook.id, chapter: selectedChapter };
+    if (linkedVerses) {
+      ref.verse = linkedVerses[0];
+      if (linkedVerses[1] !== linkedVerses[0] && Number.isFinite(linkedVerses[1])) ref.endVerse = linkedVerses[1];
+    }
+    const hash = referenceToHash(ref);
+    if (window.location.hash === hash) {
+      replaceHistoryRef.current = false;
+      return;
+    }
+    if (replaceHistoryRef.current || !parseHash(window.location.hash)) {
+      history.replaceState(null, '', hash);
+    } else {
+      history.pushState(null, '', hash);
+    }
+    replaceHistoryRef.current = false;
+  }, [selectedBook, selectedChapter, linkedVerses]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const ref = parseHash(window.location.hash);
+      if (ref) navigateTo(ref);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Scroll to the linked verse once its chapter has loaded
+  useEffect(() => {
+    if (!linkedVerses || chapterContent?.bookId !== selectedBook.id || chapterContent.chapter !== selectedChapter) return;
+    document.getElementById(`verse-${linkedVerses[0]}`)?.scrollIntoView({ block: 'center' });
+  }, [chapterContent, linkedVerses]);
 
   // --- Data Loading ---
+  // Aborted when the chapter changes again, so a slow earlier request cannot overwrite a newer one
   useEffect(() => {
+    const controller = new AbortController();
     const loadContent = async () => {
       setIsLoadingContent(true);
-      stopAudio(); 
+      setLoadError(null);
+      stopAudio();
       try {
-        const text = await fetchChapterText(selectedBook.name, selectedChapter);
-        setChapterContent(text);
+        const content = await fetchChapterText(selectedBook, selectedChapter, translation, controller.signal);
+        if (controller.signal.aborted) return;
+        setChapterContent(content);
       } catch (error) {
-        setChapterContent("載入經文失敗，請檢查 API 設定或網路連線。");
+        if (controller.signal.aborted) return;
+        autoPlayNextRef.current = false;
+        setChapterContent(null);
+        setLoadError(toGeminiError(error));
       } finally {
-        setIsLoadingContent(false);
+        if (!controller.signal.aborted) setIsLoadingContent(false);
       }
     };
     loadContent();
+    return () => controller.abort();
+  }, [selectedBook, selectedChapter, translation, textVersion]);
+
+  useEffect(() => {
+    setParallelContent(null);
+    if (!parallelTranslation || parallelTranslation === translation) return;
+    let cancelled = false;
+    fetchChapterText(selectedBook, selectedChapter, parallelTranslation)
+      .then(content => { if (!cancelled) setParallelContent(content); })
+      .catch(error => console.warn("Parallel text unavailable:", error));
+    return () => { cancelled = true; };
+  }, [selectedBook, selectedChapter, translation, parallelTranslation, textVersion]);
+
+  // --- Annotations ---
+  useEffect(() => {
+    let cancelled = false;
+    getChapterAnnotations(selectedBook.id, selectedChapter)
+      .then(annotations => { if (!cancelled) setChapterAnnotations(annotations); })
+      .catch(error => console.error("Annotations load error:", error));
+    return () => { cancelled = true; };
+  }, [selectedBook, selectedChapter, annotationsVersion]);
+
+  useEffect(() => {
+    setSelectedVerses([]);
   }, [selectedBook, selectedChapter]);
 
-  // --- Audio Control ---
-  const initAudio = () => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  // While narrating, tapping a verse jumps there; otherwise it toggles the selection
+  const handleVerseClick = (verse: number) => {
+    if (audioState === AudioState.PLAYING) {
+      playAudio(verse);
+      return;
     }
-    if (audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume();
+    setSelectedVerses(prev =>
+      prev.includes(verse) ? prev.filter(v => v !== verse) : [...prev, verse].sort((a, b) => a - b)
+    );
+  };
+
+  const annotateSelection = async (change: AnnotationChange) => {
+    try {
+      const next = await updateAnnotations(chapterAnnotations, selectedBook.id, selectedChapter, selectedVerses, change);
+      setChapterAnnotations(next);
+      if ('note' in change) setSelectedVerses([]);
+    } catch (error) {
+      console.error("Annotation save error:", error);
+      alert("儲存失敗，請確認瀏覽器允許本機儲存空間。");
     }
   };
 
-  const playAudio = async () => {
-    if (!chapterContent || audioState === AudioState.LOADING) return;
+  const selectedAnnotations = selectedVerses.map(v => chapterAnnotations[v]);
+  const sharedHighlight = selectedAnnotations.every(a => a?.highlight && a.highlight === selectedAnnotations[0]?.highlight)
+    ? selectedAnnotations[0]?.highlight ?? null
+    : null;
+  const allBookmarked = selectedAnnotations.length > 0 && selectedAnnotations.every(a => a?.bookmarked);
+
+  // --- Memory Verses ---
+  useEffect(() => {
+    getMemoryVerses()
+      .then(setMemoryVerses)
+      .catch(error => console.error("Memory verses load error:", error));
+  }, [memoryVersion]);
+
+  const selectionMemoryKey = selectedVerses.length > 0
+    ? memoryVerseKey({
+      bookId: selectedBook.id,
+      chapter: selectedChapter,
+      verse: selectedVerses[0],
+      endVerse: selectedVerses.length > 1 ? selectedVerses[selectedVerses.length - 1] : undefined,
+    })
+    : null;
+  const selectionMemorized = memoryVerses.find(v => memoryVerseKey(v) === selectionMemoryKey) ?? null;
+  const dueMemoryCount = memoryVerses.filter(v => isDue(v)).length;
+
+  const toggleMemorizeSelection = async () => {
     try {
-      setAudioState(AudioState.LOADING);
-      initAudio();
-      const base64 = await generateSpeech(chapterContent);
-      const audioData = decodeBase64(base64);
-      const buffer = await decodeAudioData(audioData, audioContextRef.current!);
-      
-      if (audioSourceRef.current) {
-        try { audioSourceRef.current.stop(); } catch(e) {}
+      if (selectionMemorized) {
+        await deleteMemoryVerse(selectionMemorized);
+      } else {
+        const verse = chapterContent && createMemoryVerse(chapterContent, selectedVerses, translation);
+        if (!verse) return;
+        await saveMemoryVerse(verse);
       }
-      
-      const source = audioContextRef.current!.createBufferSource();
-      source.buffer = buffer;
-      source.connect(audioContextRef.current!.destination);
-      source.onended = () => setAudioState(AudioState.IDLE);
-      source.start(0);
-      audioSourceRef.current = source;
-      setAudioState(AudioState.PLAYING);
+      setMemoryVersion(v => v + 1);
     } catch (error) {
+      console.error("Memory verse save error:", error);
+      alert("儲存失敗，請確認瀏覽器允許本機儲存空間。");
+    }
+  };
+
+  // --- Audio Control ---
+  // Gemini first, the browser's speech synthesis as the fallback
+  const getTtsEngines = () => {
+    if (!enginesRef.current) enginesRef.current = [new GeminiTtsEngine(), new WebSpeechEngine()];
+    return enginesRef.current;
+  };
+
+  /** Starts narration, optionally from a given verse. */
+  const playAudio = async (startVerse?: number) => {
+    if (!chapterContent || chapterContent.verses.length === 0 || audioState === AudioState.LOADING) return;
+    const key = chapterAudioKey(translation, chapterContent.bookId, chapterContent.chapter, tts);
+
+    // Resume the already loaded chapter instead of synthesizing it again
+    const loaded = playerRef.current;
+    if (loaded?.isLoaded && (loadedAudioKeyRef.current === key || partialAudioRef.current?.key === key)) {
+      const timing = startVerse ? verseTimingsRef.current.find(t => t.verse === startVerse) : undefined;
+      if (!startVerse || timing) {
+        loaded.play(timing?.start);
+        setAudioState(AudioState.PLAYING);
+        return;
+      }
+    }
+
+    const engines = getTtsEngines();
+    const preferred = selectTtsEngine(engines, ttsEngine);
+    if (!preferred) {
       setAudioState(AudioState.ERROR);
-      alert("播放失敗，請確認網路或 API_KEY。");
+      setAudioNotice({ message: '無法朗讀：未設定 API_KEY，且此瀏覽器不支援語音合成。' });
+      return;
+    }
+
+    const requestId = ++audioRequestRef.current;
+    const isStale = () => requestId !== audioRequestRef.current; // Chapter changed while loading
+    audioAbortRef.current?.abort();
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
+    const chunks = buildSpeechChunks(chapterContent, translation, tts);
+    partialAudioRef.current = null;
+    let started = false;
+    setPlaybackPosition(0);
+    setPlaybackDuration(0);
+    setAudioNotice(null);
+    setAudioState(AudioState.LOADING);
+
+    // Fall back to the next available engine when one cannot synthesize anything
+    try {
+      const { engine, preferredError, remaining } = await loadWithFallback(engines, ttsEngine, (engine) => {
+        playerRef.current?.unload();
+        const player = engine.player;
+        player.onEnded = () => chapterEndedRef.current();
+        player.setPlaybackRate(playbackRate);
+        playerRef.current = player;
+        loadedAudioKeyRef.current = key;
+        verseTimingsRef.current = [];
+        let ready = false;
+        // The whole chapter is loaded; starting mid-chapter waits for the requested verse's chunk
+        const startWhenLoaded = () => {
+          if (!ready || started) return;
+          const start = startVerse ? verseTimingsRef.current.find(t => t.verse === startVerse)?.start : 0;
+          if (start === undefined) return;
+          started = true;
+          player.play(start);
+          setAudioState(AudioState.PLAYING);
+        };
+        return {
+          chunks,
+          speech: speechOptionsFor(translation, tts),
+          cacheKey: key,
+          signal: controller.signal,
+          isCancelled: isStale,
+          onTimings: (timings) => {
+            verseTimingsRef.current.push(...timings);
+            setPlaybackDuration(player.duration);
+            startWhenLoaded();
+          },
+          // Start as soon as the first chunk is ready; later chunks queue gaplessly
+          onReady: () => {
+            ready = true;
+            startWhenLoaded();
+          },
+        };
+      });
+      if (isStale()) return;
+      setPlaybackDuration(engine.player.duration);
+      // Synthesis stopped before the requested verse
+      if (!started) setAudioState(AudioState.IDLE);
+      if (remaining.length > 0) {
+        // Not fully loaded, so the next play doesn't treat it as the whole chapter
+        loadedAudioKeyRef.current = null;
+        partialAudioRef.current = { key, engine, remaining };
+        setAudioNotice({ message: PARTIAL_AUDIO_NOTICE, canRetry: true });
+      } else if (engine !== preferred) {
+        const reason = preferredError ? `（${toGeminiError(preferredError).message.replace(/。$/, '')}）` : '';
+        setAudioNotice({ message: `${TTS_ENGINE_LABELS[preferred.id]}目前無法使用${reason}，已改用${TTS_ENGINE_LABELS[engine.id]}朗讀。` });
+      }
+      if (engine.id === 'gemini' && continuousPlayRef.current) prefetchNextChapter(chapterContent);
+    } catch (error) {
+      if (isStale()) return;
+      playerRef.current?.unload();
+      loadedAudioKeyRef.current = null;
+      setAudioState(AudioState.ERROR);
+      setAudioNotice({ message: `朗讀失敗：${toGeminiError(error).message}`, canRetry: true });
     }
   };
 
-  const stopAudio = useCallback(() => {
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch(e) {}
-      audioSourceRef.current = null;
+  /** Retries the chunks a partial load left out, appending them after the loaded audio. */
+  const loadRemainingAudio = async () => {
+    const partial = partialAudioRef.current;
+    const player = playerRef.current;
+    if (!partial || !player) return;
+    const requestId = ++audioRequestRef.current;
+    const isStale = () => requestId !== audioRequestRef.current;
+    audioAbortRef.current?.abort();
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
+    // Playback that already stopped at the gap continues from there
+    const resumeAt = !player.isPlaying && player.position === 0 ? player.duration : null;
+    setAudioNotice(null);
+    try {
+      const { remaining } = await partial.engine.load({
+        chunks: partial.remaining,
+        speech: speechOptionsFor(translation, tts),
+        cacheKey: partial.key,
+        signal: controller.signal,
+        append: true,
+        isCancelled: isStale,
+        onTimings: (timings) => {
+          verseTimingsRef.current.push(...timings);
+          setPlaybackDuration(player.duration);
+        },
+        onReady: () => {
+          if (resumeAt === null) return;
+          player.play(resumeAt);
+          setAudioState(AudioState.PLAYING);
+        },
+      });
+      if (isStale()) return;
+      setPlaybackDuration(player.duration);
+      if (remaining.length > 0) {
+        partialAudioRef.current = { ...partial, remaining };
+        setAudioNotice({ message: PARTIAL_AUDIO_NOTICE, canRetry: true });
+        return;
+      }
+      partialAudioRef.current = null;
+      loadedAudioKeyRef.current = partial.key;
+    } catch (error) {
+      if (isStale()) return;
+      console.error("TTS retry error:", error);
+      setAudioNotice({ message: `朗讀失敗：${toGeminiError(error).message}`, canRetry: true });
     }
+  };
+
+  const pauseAudio = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.pause();
+    setPlaybackPosition(player.position);
+    setAudioState(AudioState.PAUSED);
+  };
+
+  const stopAudio = useCallback(() => {
+    audioRequestRef.current++;
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
+    playerRef.current?.unload();
+    loadedAudioKeyRef.current = null;
+    partialAudioRef.current = null;
+    verseTimingsRef.current = [];
+    setPlaybackPosition(0);
+    setPlaybackDuration(0);
+    setCurrentVerse(null);
     setAudioState(AudioState.IDLE);
   }, []);
 
+  const seekAudio = (time: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.seek(time);
+    setPlaybackPosition(player.position);
+  };
+
+  const skipAudio = (seconds: number) => seekAudio((playerRef.current?.position ?? 0) + seconds);
+
+  // The next playback uses the newly preferred engine
+  const changeTtsEngine = (engine: TtsEngineId) => {
+    stopAudio();
+    setTtsEngine(engine);
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    playerRef.current?.setPlaybackRate(rate);
+    setPlaybackRate(rate);
+  };
+
+  const prefetchNextChapter = (content: ChapterContent) => {
+    const next = getAdjacentChapter(content.bookId, content.chapter, 1);
+    if (!next) return;
+    prefetchChapter(next.book, next.chapter, { translation, tts })
+      .catch(error => console.warn("Prefetch failed:", error));
+  };
+
+  const handleChapterEnded = () => {
+    setPlaybackPosition(0);
+    setCurrentVerse(null);
+    setAudioState(AudioState.IDLE);
+
+    if (sleepTimer === 'chapter') {
+      setSleepTimer('off');
+      return;
+    }
+    // Narration stopped where synthesis failed, so the chapter wasn't heard to the end
+    if (!continuousPlay || !chapterContent || partialAudioRef.current) return;
+
+    markChapterComplete(chapterContent.bookId, chapterContent.chapter, 'listen');
+    const next = getAdjacentChapter(chapterContent.bookId, chapterContent.chapter, 1);
+    if (!next) return;
+    autoPlayNextRef.current = true;
+    replaceHistoryRef.current = true;
+    navigateTo({ bookId: next.book.id, chapter: next.chapter });
+  };
+  chapterEndedRef.current = handleChapterEnded;
+
+  // Continue narration once the auto-advanced chapter has loaded
+  useEffect(() => {
+    if (!chapterContent || !autoPlayNextRef.current) return;
+    autoPlayNextRef.current = false;
+    playAudio();
+  }, [chapterContent]);
+
+  // --- Media Session (lock screen, notification and headphone controls) ---
+  const playAdjacentChapter = (delta: 1 | -1) => {
+    const adjacent = getAdjacentChapter(selectedBook.id, selectedChapter, delta);
+    if (!adjacent) return;
+    autoPlayNextRef.current = true;
+    navigateTo({ bookId: adjacent.book.id, chapter: adjacent.chapter });
+  };
+
+  mediaActionsRef.current = {
+    play: () => playAudio(),
+    pause: pauseAudio,
+    stop: stopAudio,
+    previoustrack: () => playAdjacentChapter(-1),
+    nexttrack: () => playAdjacentChapter(1),
+    seekbackward: (details) => skipAudio(-(details.seekOffset ?? 10)),
+    seekforward: (details) => skipAudio(details.seekOffset ?? 10),
+    seekto: (details) => details.seekTime !== undefined && seekAudio(details.seekTime),
+  };
+
+  // Registered once; the wrappers always call the latest handlers
+  useEffect(() => {
+    const actions = Object.keys(mediaActionsRef.current) as MediaSessionAction[];
+    setMediaActions(Object.fromEntries(actions.map(action => [
+      action,
+      (details: MediaSessionActionDetails) => mediaActionsRef.current[action]?.(details),
+    ])));
+    return () => setMediaActions({});
+  }, []);
+
+  useEffect(() => {
+    setMediaMetadata(
+      `${localizedBookName(selectedBook.id, translation)} ${selectedChapter}`,
+      getTranslation(translation).name
+    );
+  }, [selectedBook, selectedChapter, translation]);
+
+  useEffect(() => {
+    setMediaPlaybackState(
+      audioState === AudioState.PLAYING ? 'playing' : audioState === AudioState.PAUSED ? 'paused' : 'none'
+    );
+  }, [audioState]);
+
+  useEffect(() => {
+    setMediaPosition(playbackDuration, playbackPosition, playbackRate);
+  }, [playbackDuration, playbackPosition, playbackRate]);
+
+  const changeSleepTimer = (option: SleepTimerOption) => {
+    setSleepTimer(option);
+    setSleepTimerEndsAt(typeof option === 'number' ? Date.now() + option * 60 * 1000 : null);
+  };
+
+  // Fade out and pause when a timed sleep timer runs out
+  useEffect(() => {
+    if (sleepTimerEndsAt === null) return;
+    const delay = Math.max(0, sleepTimerEndsAt - Date.now() - SLEEP_FADE_SECONDS * 1000);
+    const timer = window.setTimeout(async () => {
+      const player = playerRef.current;
+      if (player?.isPlaying) {
+        await player.fadeOut(SLEEP_FADE_SECONDS);
+        pauseAudio();
+      }
+      changeSleepTimer('off');
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [sleepTimerEndsAt]);
+
+  // Accumulate listening time for the statistics view
+  useEffect(() => {
+    if (audioState !== AudioState.PLAYING) return;
+    const startedAt = Date.now();
+    return () => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setListeningStats(prev => addListeningTime(prev, seconds));
+    };
+  }, [audioState]);
+
+  // Keep the progress bar moving while audio plays
+  useEffect(() => {
+    if (audioState !== AudioState.PLAYING) return;
+    const timer = window.setInterval(() => {
+      if (!playerRef.current) return;
+      const position = playerRef.current.position;
+      setPlaybackPosition(position);
+      setIsBuffering(playerRef.current.isBuffering);
+      setCurrentVerse(findVerseAt(verseTimingsRef.current, position));
+    }, 250);
+    return () => {
+      window.clearInterval(timer);
+      setIsBuffering(false);
+    };
+  }, [audioState]);
+
+  // Bring the verse being read into view unless it is already visible
+  useEffect(() => {
+    if (currentVerse === null || audioState !== AudioState.PLAYING) return;
+    const container = document.getElementById('content-area');
+    const element = document.getElementById(`verse-${currentVerse}`);
+    if (!container || !element) return;
+    const bounds = container.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    if (rect.top < bounds.top + 16 || rect.bottom > bounds.bottom - 160) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [currentVerse, audioState]);
+
   // --- Progress Handling ---
   const toggleChapterProgress = (bookId: string, chapter: number, e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
-    setProgress(prev => {
-      const currentBookChapters = prev[bookId] || [];
-      const updated = currentBookChapters.includes(chapter)
-        ? currentBookChapters.filter(c => c !== chapter)
-        : [...currentBookChapters, chapter];
-      return { ...prev, [bookId]: updated };
-    });
+    setProgress(prev =>
+      setChapterCompleted(prev, bookId, chapter, isChapterCompleted(prev, bookId, chapter) ? null : 'read')
+    );
+  };
+
+  const markChapterComplete = (bookId: string, chapter: number, via: CompletionSource) => {
+    setProgress(prev => isChapterCompleted(prev, bookId, chapter) ? prev : setChapterCompleted(prev, bookId, chapter, via));
   };
 
   const isCompleted = (bookId: string, chapter: number) => {
-    return (progress[bookId] || []).includes(chapter);
+    return isChapterCompleted(progress, bookId, chapter);
   };
 
   const handleChapterClick = (chap: number) => {
     setSelectedChapter(chap);
+    setLinkedVerses(null);
     if (window.innerWidth < 768) {
       document.getElementById('content-area')?.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
+  const openPlanChapter = (ref: ChapterRef) => {
+    navigateTo(ref);
+    setIsPlanOpen(false);
+  };
+
+  const openStudy = (verses: number[]) => {
+    setStudyPassage({ bookId: selectedBook.id, chapter: selectedChapter, verses: [...verses].sort((a, b) => a - b) });
+  };
+
+  const openSearchReference = (ref: ScriptureReference) => {
+    navigateTo(ref);
+    setSidebarSearch('');
+    setIsSidebarOpen(false);
+  };
+
+  const currentPlan = activePlan ? resolvePlan(activePlan) : null;
+  const planStatus = currentPlan && activePlan ? getPlanStatus(currentPlan, activePlan, isCompleted) : null;
+  const hasUnreadToday = !!planStatus && planStatus.todaysReading.some(ref => !isCompleted(ref.bookId, ref.chapter));
+
   const adjustFontSize = (delta: number) => {
-    setFontSize(prev => Math.min(48, Math.max(14, prev + delta)));
+    setFontSize(prev => Math.min(FONT_SIZE_RANGE.max, Math.max(FONT_SIZE_RANGE.min, prev + delta)));
   };
 
-  const filteredBooks = BIBLE_BOOKS.filter(b => b.name.includes(sidebarSearch));
+  // 直排只適用於中文譯本，且不與對照並列
+  const isVertical = appearance.vertical && getTranslation(translation).language === 'zh';
+  const readerFont = READER_FONTS.find(f => f.id === appearance.font)!;
+  const readerPadding = READER_MARGINS.find(m => m.id === appearance.margin)!.padding;
+
+  // Verse-aligned by the primary translation's numbering
+  const parallelVerses = !isVertical && parallelContent && parallelContent.bookId === chapterContent?.bookId && parallelContent.chapter === chapterContent.chapter
+    ? new Map(parallelContent.verses.map(v => [v.number, v.text]))
+    : null;
+
+  const filteredBooks = searchBooks(sidebarSearch);
+  // Only offer a jump once the query names a chapter, e.g. `約 3:16`
+  const searchRef = /\d/.test(sidebarSearch) ? parseReference(sidebarSearch) : null;
 
   return (
     <div className="flex h-screen w-full bg-[#fdfaf6] text-slate-800 overflow-hidden font-sans">
@@ -150,17 +724,51 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          <div className="px-4 pt-4 grid grid-cols-2 gap-2">
+            <label className="text-[11px] font-bold text-slate-400 space-y-1">
+              <span>譯本</span>
+              <select
+                value={translation}
+                onChange={(e) => setTranslation(e.target.value)}
+                className="w-full px-2 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-700"
+              >
+                {TRANSLATIONS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </label>
+            <label className="text-[11px] font-bold text-slate-400 space-y-1">
+              <span>對照</span>
+              <select
+                value={parallelTranslation ?? ''}
+                onChange={(e) => setParallelTranslation(e.target.value || null)}
+                className="w-full px-2 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-700"
+              >
+                <option value="">不對照</option>
+                {TRANSLATIONS.filter(t => t.id !== translation).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </label>
+          </div>
+
           <div className="p-4">
             <div className="relative">
               <Search className="absolute left-3 top-2.5 text-slate-400" size={18} />
               <input 
                 type="text" 
-                placeholder="搜尋經卷名稱..." 
+                placeholder="搜尋經卷或經節，如 約 3:16" 
                 className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-amber-500/30 transition-all"
                 value={sidebarSearch}
                 onChange={(e) => setSidebarSearch(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && searchRef) openSearchReference(searchRef); }}
               />
             </div>
+            {searchRef && (
+              <button
+                onClick={() => openSearchReference(searchRef)}
+                className="mt-2 w-full flex items-center justify-between px-4 py-3 rounded-xl bg-amber-900 text-white text-sm font-bold"
+              >
+                <span>前往 {formatReference(searchRef)}</span>
+                <ChevronRight size={16} />
+              </button>
+            )}
           </div>
 
           <nav className="flex-1 overflow-y-auto p-2 space-y-4 scrollbar-hide">
@@ -173,13 +781,13 @@ const App: React.FC = () => {
                   {filteredBooks.filter(b => b.testament === testament).map(book => (
                     <button
                       key={book.id}
-                      onClick={() => { setSelectedBook(book); setSelectedChapter(1); setIsSidebarOpen(false); }}
+                      onClick={() => { navigateTo({ bookId: book.id, chapter: 1 }); setIsSidebarOpen(false); }}
                       className={`flex justify-between items-center px-4 py-3 rounded-xl transition-all ${selectedBook.id === book.id ? 'bg-amber-100 text-amber-950 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}
                     >
-                      <span>{book.name}</span>
+                      <span>{localizedBookName(book.id, translation)}</span>
                       <div className="flex items-center gap-2">
                         <span className="text-[10px] font-bold text-slate-400">
-                          {(progress[book.id] || []).length}/{book.chapters}
+                          {completedChapterCount(progress, book.id)}/{book.chapters}
                         </span>
                         <ChevronRight size={14} className="text-slate-300" />
                       </div>
@@ -189,6 +797,20 @@ const App: React.FC = () => {
               </div>
             ))}
           </nav>
+
+          <OfflineManager
+            selectedBook={selectedBook}
+            translation={translation}
+            tts={tts}
+            onExportAudio={() => {
+              setIsExportOpen(true);
+              setIsSidebarOpen(false);
+            }}
+            onTextImported={() => {
+              setTextVersion(v => v + 1);
+              invalidateSearchIndex();
+            }}
+          />
         </div>
       </aside>
 
@@ -207,12 +829,81 @@ const App: React.FC = () => {
               </button>
               <div className="flex flex-col">
                 <h2 className="font-bold text-slate-900 text-sm sm:text-lg leading-tight serif-text truncate max-w-[120px] sm:max-w-none">
-                  {selectedBook.name} {selectedChapter}
+                  {localizedBookName(selectedBook.id, translation)} {selectedChapter}
                 </h2>
               </div>
             </div>
 
             <div className="flex items-center gap-1 sm:gap-3">
+              {/* My Notes */}
+              <button
+                onClick={() => setIsNotesOpen(true)}
+                className="p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="我的筆記"
+              >
+                <NotebookPen size={20} />
+              </button>
+
+              {/* AI Study Companion */}
+              <button
+                onClick={() => openStudy([])}
+                disabled={!chapterContent}
+                className="p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90 disabled:opacity-50"
+                title="研讀助手"
+              >
+                <Lightbulb size={20} />
+              </button>
+
+              {/* Memory Verses */}
+              <button
+                onClick={() => {
+                  if (audioState === AudioState.PLAYING) pauseAudio();
+                  setIsMemoryOpen(true);
+                }}
+                className="relative p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="背誦經文"
+              >
+                <Brain size={20} />
+                {dueMemoryCount > 0 && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500" />}
+              </button>
+
+              {/* Full-text Search */}
+              <button
+                onClick={() => setIsSearchOpen(true)}
+                className="p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="經文搜尋"
+              >
+                <TextSearch size={20} />
+              </button>
+
+              {/* Reading Plan */}
+              <button
+                onClick={() => setIsPlanOpen(true)}
+                className="relative p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="讀經計畫"
+              >
+                <CalendarDays size={20} />
+                {hasUnreadToday && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500" />}
+              </button>
+
+              {/* Settings */}
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="設定"
+              >
+                <Settings size={20} />
+              </button>
+
+              {/* Statistics */}
+              <button
+                onClick={() => setIsStatsOpen(true)}
+                className="p-2 text-amber-900 bg-amber-50 hover:bg-amber-100 rounded-xl transition-all active:scale-90"
+                title="讀經統計"
+              >
+                <BarChart3 size={20} />
+              </button>
+
               {/* Font Size Adjusters */}
               <div className="flex items-center bg-slate-100 rounded-full px-1 sm:px-2">
                 <button onClick={() => adjustFontSize(-2)} className="p-1.5 sm:p-2 text-slate-500 hover:text-amber-900 active:scale-90" title="小字">
@@ -226,7 +917,7 @@ const App: React.FC = () => {
 
               {/* Main Play Button */}
               <button 
-                onClick={audioState === AudioState.PLAYING ? stopAudio : playAudio}
+                onClick={audioState === AudioState.PLAYING ? pauseAudio : () => playAudio()}
                 disabled={isLoadingContent}
                 className={`flex items-center gap-1.5 px-3 sm:px-5 py-2 rounded-full shadow-md transition-all active:scale-95 font-bold text-sm ${
                   audioState === AudioState.PLAYING 
@@ -234,14 +925,14 @@ const App: React.FC = () => {
                     : 'bg-amber-900 text-white'
                 } disabled:opacity-50`}
               >
-                {audioState === AudioState.LOADING 
+                {audioState === AudioState.LOADING || isBuffering
                   ? <Loader2 size={18} className="animate-spin" /> 
                   : audioState === AudioState.PLAYING 
                     ? <Pause size={18} /> 
                     : <Volume2 size={18} />
                 }
                 <span className="hidden sm:inline">
-                  {audioState === AudioState.LOADING ? '處理中' : audioState === AudioState.PLAYING ? '暫停' : '朗讀'}
+                  {audioState === AudioState.LOADING ? '處理中' : audioState === AudioState.PLAYING ? '暫停' : audioState === AudioState.PAUSED ? '繼續' : '朗讀'}
                 </span>
               </button>
 
@@ -260,9 +951,16 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {isDatabaseBlocked && (
+          <div className="flex items-center gap-2 mx-2 mt-2 px-3 py-2 rounded-xl bg-amber-50 border border-amber-100 text-amber-900 text-xs">
+            <AlertTriangle size={14} className="shrink-0" />
+            <span className="flex-1">本機資料庫正在更新，請關閉其他開啟恩典聖經的分頁，完成後會自動繼續。</span>
+          </div>
+        )}
+
         {/* Content Area - Minimized Padding as requested */}
         <div id="content-area" className="flex-1 overflow-y-auto scroll-smooth">
-          <div className="w-full mx-auto px-[2ch] pt-6 pb-32">
+          <div style={{ paddingInline: readerPadding }} className={`w-full mx-auto pt-6 ${selectedVerses.length > 0 ? 'pb-72' : playbackDuration > 0 ? 'pb-48' : 'pb-32'}`}>
             <div className="max-w-4xl mx-auto">
               {isLoadingContent ? (
                 <div className="space-y-6 animate-pulse">
@@ -270,13 +968,108 @@ const App: React.FC = () => {
                     <div key={i} className="h-4 bg-slate-100 rounded-full w-full mb-4"></div>
                   ))}
                 </div>
+              ) : loadError || !chapterContent ? (
+                <div className="flex flex-col items-center gap-4 text-center py-20">
+                  <AlertTriangle size={32} className="text-amber-500" />
+                  <p className="text-slate-600">載入經文失敗：{loadError?.message ?? GEMINI_ERROR_MESSAGES.unknown}</p>
+                  {(loadError?.kind === 'missing-key' || loadError?.kind === 'invalid-key' || loadError?.kind === 'safety') && (
+                    <p className="text-xs text-slate-400">可在目錄下方匯入經文檔，不需 API_KEY 即可閱讀。</p>
+                  )}
+                  <button
+                    onClick={() => setTextVersion(v => v + 1)}
+                    className="flex items-center gap-2 px-5 py-2 rounded-full bg-amber-900 text-white text-sm font-bold active:scale-95"
+                  >
+                    <RotateCw size={16} />
+                    重試
+                  </button>
+                </div>
               ) : (
-                <article 
-                  className={`serif-text text-slate-800 whitespace-pre-wrap transition-all duration-700 ${audioState === AudioState.PLAYING ? 'text-amber-950 font-medium' : ''}`}
-                  style={{ fontSize: `${fontSize}px`, lineHeight: 2.2 }}
-                >
-                  {chapterContent}
-                </article>
+                <>
+                  {isGeneratedText(chapterContent) && (
+                    <div className="flex items-start gap-2 mb-6 p-3 rounded-2xl bg-amber-50 border border-amber-100 text-amber-900 text-xs">
+                      <Sparkles size={14} className="shrink-0 mt-0.5" />
+                      <span>此章經文由 AI 產生，可能與{getTranslation(translation).name}原文有出入。匯入經文檔案即可離線閱讀準確經文。</span>
+                    </div>
+                  )}
+                  <article
+                    className={`${readerFont.className} text-slate-800 ${isVertical ? 'overflow-x-auto scrollbar-hide' : ''}`}
+                    style={{
+                      fontSize: `${fontSize}px`,
+                      lineHeight: appearance.lineHeight,
+                      ...(isVertical && { writingMode: 'vertical-rl', height: 'calc(100dvh - 18rem)' }),
+                    }}
+                  >
+                    {parallelVerses && parallelTranslation && (
+                      <div className="hidden md:grid grid-cols-2 gap-x-8 mb-2 font-sans text-xs font-bold text-slate-400">
+                        <span>{getTranslation(translation).shortName}</span>
+                        <span>{getTranslation(parallelTranslation).shortName}</span>
+                      </div>
+                    )}
+                    {chapterContent.verses.map(verse => {
+                      const heading = appearance.showHeadings && getHeadingBefore(chapterContent, verse.number);
+                      const linked = !!linkedVerses && verse.number >= linkedVerses[0] && verse.number <= linkedVerses[1];
+                      const annotation = chapterAnnotations[verse.number];
+                      const selected = selectedVerses.includes(verse.number);
+                      return (
+                        <React.Fragment key={verse.number}>
+                          {heading && (
+                            <h3 className="font-bold text-amber-900 mt-6 mb-2" style={{ fontSize: '0.85em' }}>
+                              {heading.title}
+                            </h3>
+                          )}
+                          <div className={parallelVerses ? 'grid grid-cols-1 md:grid-cols-2 md:gap-x-8' : undefined}>
+                            <p
+                              id={`verse-${verse.number}`}
+                              data-verse={verse.number}
+                              onClick={() => handleVerseClick(verse.number)}
+                              className={`scroll-mt-24 -mx-2 px-2 rounded-xl cursor-pointer transition-colors duration-500 ${
+                                currentVerse === verse.number ? 'bg-amber-100 text-amber-950'
+                                  : annotation?.highlight ? highlightClass(annotation.highlight)
+                                  : linked ? 'bg-amber-50 shadow-[inset_3px_0_0_#f59e0b]' : 'hover:bg-amber-50/60'
+                              } ${selected ? 'underline decoration-amber-500 decoration-2 underline-offset-4' : ''}`}
+                            >
+                              {(appearance.showVerseNumbers || annotation?.bookmarked) && (
+                                <sup className="text-amber-700/70 font-sans font-bold mr-1" style={{ fontSize: '0.55em' }}>
+                                  {annotation?.bookmarked && <Bookmark size={10} fill="currentColor" className="inline text-amber-600 mr-0.5 -mt-0.5" />}
+                                  {appearance.showVerseNumbers && verse.number}
+                                </sup>
+                              )}
+                              {verse.text}
+                              {annotation?.note && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSelectedVerses(Array.from(
+                                      { length: (annotation.noteEndVerse ?? verse.number) - verse.number + 1 },
+                                      (_, i) => verse.number + i
+                                    ));
+                                  }}
+                                  className="inline-flex align-middle ml-1 text-amber-600"
+                                  title={annotation.note}
+                                >
+                                  <StickyNote size={14} />
+                                </button>
+                              )}
+                            </p>
+                            {parallelVerses && (
+                              <p
+                                className="-mx-2 px-2 mb-3 md:mb-0 text-slate-500 border-l-2 border-slate-100 md:border-0"
+                                style={{ fontSize: '0.85em' }}
+                              >
+                                {appearance.showVerseNumbers && (
+                                  <sup className="text-slate-400 font-sans font-bold mr-1" style={{ fontSize: '0.6em' }}>
+                                    {verse.number}
+                                  </sup>
+                                )}
+                                {parallelVerses.get(verse.number)}
+                              </p>
+                            )}
+                          </div>
+                        </React.Fragment>
+                      );
+                    })}
+                  </article>
+                </>
               )}
             </div>
           </div>
@@ -285,6 +1078,53 @@ const App: React.FC = () => {
         {/* Bottom Navigation for Chapters */}
         <footer className="fixed bottom-0 left-0 right-0 bg-white/95 backdrop-blur-md border-t border-slate-200 z-30 safe-area-bottom shadow-lg">
           <div className="max-w-6xl mx-auto p-2 sm:p-4">
+            {selectedVerses.length > 0 && (
+              <VerseToolbar
+                label={`${localizedBookName(selectedBook.id, translation)} ${selectedChapter}:${formatVerseList(selectedVerses)}`}
+                highlight={sharedHighlight}
+                bookmarked={allBookmarked}
+                note={chapterAnnotations[selectedVerses[0]]?.note ?? ''}
+                onHighlight={(color) => annotateSelection({ highlight: color })}
+                onToggleBookmark={() => annotateSelection({ bookmarked: !allBookmarked })}
+                onSaveNote={(note) => annotateSelection({ note })}
+                onPlay={() => {
+                  playAudio(selectedVerses[0]);
+                  setSelectedVerses([]);
+                }}
+                onStudy={() => openStudy(selectedVerses)}
+                memorized={!!selectionMemorized}
+                onToggleMemorize={toggleMemorizeSelection}
+                onClose={() => setSelectedVerses([])}
+              />
+            )}
+            {audioNotice && (
+              <div className="flex items-center gap-2 mx-1 mb-2 px-3 py-2 rounded-xl bg-amber-50 border border-amber-100 text-amber-900 text-xs">
+                <span className="flex-1">{audioNotice.message}</span>
+                {audioNotice.canRetry && (
+                  <button onClick={() => partialAudioRef.current ? loadRemainingAudio() : playAudio()} className="px-2 py-1 rounded-lg bg-amber-900 text-white font-bold">
+                    重試
+                  </button>
+                )}
+                <button onClick={() => setAudioNotice(null)} className="p-0.5 text-amber-700 hover:text-amber-900" title="關閉">
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+            {playbackDuration > 0 && (
+              <AudioControls
+                position={playbackPosition}
+                duration={playbackDuration}
+                playbackRate={playbackRate}
+                onSeek={seekAudio}
+                onSkip={skipAudio}
+                onRateChange={changePlaybackRate}
+                continuous={continuousPlay}
+                onToggleContinuous={() => setContinuousPlay(c => !c)}
+                sleepTimer={sleepTimer}
+                sleepTimerRemaining={sleepTimerEndsAt !== null ? (sleepTimerEndsAt - Date.now()) / 1000 : null}
+                onSleepTimerChange={changeSleepTimer}
+              />
+            )}
             <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide snap-x px-1">
               {Array.from({ length: selectedBook.chapters }, (_, i) => i + 1).map(chap => {
                 const completed = isCompleted(selectedBook.id, chap);
@@ -317,6 +1157,96 @@ const App: React.FC = () => {
           </div>
         </footer>
       </main>
+
+      <ReadingPlanPanel
+        isOpen={isPlanOpen}
+        onClose={() => setIsPlanOpen(false)}
+        activePlan={activePlan}
+        onChangePlan={setActivePlan}
+        isCompleted={isCompleted}
+        onOpenChapter={openPlanChapter}
+        onToggleChapter={(ref) => toggleChapterProgress(ref.bookId, ref.chapter)}
+      />
+
+      <NotesPanel
+        isOpen={isNotesOpen}
+        onClose={() => setIsNotesOpen(false)}
+        onOpenPassage={(ref) => {
+          navigateTo(ref);
+          setIsNotesOpen(false);
+        }}
+        onChanged={() => setAnnotationsVersion(v => v + 1)}
+      />
+
+      <SearchPanel
+        isOpen={isSearchOpen}
+        translation={translation}
+        onClose={() => setIsSearchOpen(false)}
+        onOpenResult={(ref) => {
+          navigateTo(ref);
+          setIsSearchOpen(false);
+        }}
+      />
+
+      <MemoryPanel
+        isOpen={isMemoryOpen}
+        onClose={() => setIsMemoryOpen(false)}
+        verses={memoryVerses}
+        tts={tts}
+        ttsEngine={ttsEngine}
+        engines={getTtsEngines()}
+        onPlay={stopAudio}
+        onOpenPassage={(ref) => {
+          navigateTo(ref);
+          setIsMemoryOpen(false);
+        }}
+        onChanged={() => setMemoryVersion(v => v + 1)}
+      />
+
+      <StudyPanel
+        isOpen={!!studyPassage}
+        onClose={() => setStudyPassage(null)}
+        passage={studyPassage}
+        content={chapterContent}
+        translation={translation}
+        onOpenReference={(ref) => {
+          navigateTo(ref);
+          setStudyPassage(null);
+        }}
+      />
+
+      <AudioExportPanel
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        book={selectedBook}
+        chapter={selectedChapter}
+        translation={translation}
+        tts={tts}
+        todaysReading={planStatus?.todaysReading ?? []}
+      />
+
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        translation={translation}
+        tts={tts}
+        onTtsChange={setTts}
+        ttsEngine={ttsEngine}
+        onTtsEngineChange={changeTtsEngine}
+        appearance={appearance}
+        onAppearanceChange={setAppearance}
+        fontSize={fontSize}
+        onFontSizeChange={setFontSize}
+      />
+
+      <StatsPanel
+        isOpen={isStatsOpen}
+        onClose={() => setIsStatsOpen(false)}
+        progress={progress}
+        listeningStats={listeningStats}
+        onExportBackup={exportBackup}
+        onImportBackup={handleImportBackup}
+      />
     </div>
   );
 };
@@ -0,0 +1,105 @@
+
+import React from 'react';
+import { PLAYBACK_RATES, SLEEP_TIMER_MINUTES, formatTime } from './audioPlayer';
+import { SleepTimerOption } from './types';
+import { RotateCcw, RotateCw, Repeat, Moon } from 'lucide-react';
+
+interface AudioControlsProps {
+  position: number;
+  duration: number;
+  playbackRate: number;
+  onSeek: (time: number) => void;
+  onSkip: (seconds: number) => void;
+  onRateChange: (rate: number) => void;
+  continuous: boolean;
+  onToggleContinuous: () => void;
+  sleepTimer: SleepTimerOption;
+  sleepTimerRemaining: number | null; // Seconds left on a timed sleep timer
+  onSleepTimerChange: (option: SleepTimerOption) => void;
+}
+
+// 睡眠定時器依序切換：關閉 → 15/30/60 分鐘 → 本章結束 → 關閉
+const SLEEP_TIMER_CYCLE: SleepTimerOption[] = ['off', ...SLEEP_TIMER_MINUTES, 'chapter'];
+
+const SKIP_SECONDS = 10;
+
+const AudioControls: React.FC<AudioControlsProps> = ({
+  position, duration, playbackRate, onSeek, onSkip, onRateChange,
+  continuous, onToggleContinuous, sleepTimer, sleepTimerRemaining, onSleepTimerChange,
+}) => {
+  const nextRate = () => {
+    const index = PLAYBACK_RATES.indexOf(playbackRate);
+    onRateChange(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  };
+
+  const nextSleepTimer = () => {
+    const index = SLEEP_TIMER_CYCLE.indexOf(sleepTimer);
+    onSleepTimerChange(SLEEP_TIMER_CYCLE[(index + 1) % SLEEP_TIMER_CYCLE.length]);
+  };
+
+  const sleepLabel = sleepTimer === 'off'
+    ? null
+    : sleepTimer === 'chapter'
+      ? '本章'
+      : `${Math.ceil((sleepTimerRemaining ?? sleepTimer * 60) / 60)}分`;
+
+  return (
+    <div className="flex items-center gap-2 sm:gap-3 px-1 pb-2">
+      <button
+        onClick={() => onSkip(-SKIP_SECONDS)}
+        className="p-1.5 text-slate-500 hover:text-amber-900 active:scale-90"
+        title="倒退 10 秒"
+      >
+        <RotateCcw size={18} />
+      </button>
+
+      <span className="text-[11px] font-bold text-slate-500 tabular-nums w-10 text-right">{formatTime(position)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={Math.min(position, duration)}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        className="flex-1 h-1.5 accent-amber-800 cursor-pointer"
+        aria-label="播放進度"
+      />
+      <span className="text-[11px] font-bold text-slate-500 tabular-nums w-10">{formatTime(duration)}</span>
+
+      <button
+        onClick={() => onSkip(SKIP_SECONDS)}
+        className="p-1.5 text-slate-500 hover:text-amber-900 active:scale-90"
+        title="快轉 10 秒"
+      >
+        <RotateCw size={18} />
+      </button>
+
+      <button
+        onClick={nextRate}
+        className="min-w-[3rem] px-2 py-1 rounded-full bg-slate-100 text-xs font-bold text-amber-900 active:scale-95"
+        title="播放速度"
+      >
+        {playbackRate}x
+      </button>
+
+      <button
+        onClick={onToggleContinuous}
+        className={`p-1.5 rounded-full active:scale-90 ${continuous ? 'text-amber-900 bg-amber-100' : 'text-slate-400'}`}
+        title={continuous ? '連續播放：開' : '連續播放：關'}
+      >
+        <Repeat size={16} />
+      </button>
+
+      <button
+        onClick={nextSleepTimer}
+        className={`flex items-center gap-1 p-1.5 rounded-full active:scale-90 ${sleepLabel ? 'text-amber-900 bg-amber-100' : 'text-slate-400'}`}
+        title="睡眠定時"
+      >
+        <Moon size={16} />
+        {sleepLabel && <span className="text-[10px] font-bold pr-1">{sleepLabel}</span>}
+      </button>
+    </div>
+  );
+};
+
+export default AudioControls;
@@ -0,0 +1,170 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BibleBook, ChapterRef, TtsSettings } from './types';
+import { AUDIO_EXPORT_FORMATS, AudioExportFormat, exportChapterAudio } from './audioExport';
+import { isOpusEncodingSupported } from './audioEncoding';
+import { localizedBookName } from './translations';
+import { toGeminiError } from './geminiErrors';
+import { X, FileAudio, Loader2 } from 'lucide-react';
+
+interface AudioExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  book: BibleBook;
+  chapter: number;
+  translation: string;
+  tts: TtsSettings;
+  todaysReading: ChapterRef[]; // Today's chapters of the active plan, empty without a plan
+}
+
+type ExportScope = 'chapter' | 'book' | 'plan';
+
+const AudioExportPanel: React.FC<AudioExportPanelProps> = ({
+  isOpen, onClose, book, chapter, translation, tts, todaysReading,
+}) => {
+  const [scope, setScope] = useState<ExportScope>('chapter');
+  const [format, setFormat] = useState<AudioExportFormat>('wav');
+  const [opusSupported, setOpusSupported] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) isOpusEncodingSupported().then(setOpusSupported);
+  }, [isOpen]);
+
+  const bookName = localizedBookName(book.id, translation);
+  const scopes: { id: ExportScope; label: string; refs: ChapterRef[]; playlist: string }[] = [
+    { id: 'chapter', label: `本章（${bookName} ${chapter}）`, refs: [{ bookId: book.id, chapter }], playlist: '' },
+    {
+      id: 'book',
+      label: `整卷《${bookName}》共 ${book.chapters} 章`,
+      refs: Array.from({ length: book.chapters }, (_, i) => ({ bookId: book.id, chapter: i + 1 })),
+      playlist: bookName,
+    },
+  ];
+  if (todaysReading.length > 0) {
+    scopes.push({ id: 'plan', label: `今日讀經進度（${todaysReading.length} 章）`, refs: todaysReading, playlist: '今日讀經' });
+  }
+  const selected = scopes.find(s => s.id === scope) ?? scopes[0];
+
+  const handleExport = async () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus(null);
+    setProgress({ done: 0, total: selected.refs.length });
+    try {
+      await exportChapterAudio(selected.refs, {
+        format: format === 'opus' && !opusSupported ? 'wav' : format,
+        translation,
+        tts,
+        playlistName: selected.playlist,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setStatus(selected.refs.length > 1 ? '已儲存 ZIP 壓縮檔（音訊檔與 M3U8 播放清單）' : '已儲存音訊檔');
+    } catch (error) {
+      const { kind, message } = toGeminiError(error);
+      if (kind !== 'cancelled') console.error("Audio export error:", error);
+      setStatus(kind === 'cancelled' ? '已停止匯出' : `匯出失敗：${message}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <FileAudio className="text-amber-600" size={24} />
+              匯出朗讀音訊
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-hide">
+            <p className="text-xs text-slate-500">
+              將 Gemini 朗讀存成音訊檔，方便分享給不使用本應用的弟兄姊妹，或在探訪等離線場合播放。使用目前的朗讀設定，已快取的段落不會重新產生。
+            </p>
+
+            <div className="space-y-1">
+              <span className="text-xs font-bold text-slate-400">範圍</span>
+              {scopes.map(s => (
+                <label
+                  key={s.id}
+                  className={`flex items-center gap-3 p-3 rounded-2xl border cursor-pointer text-sm text-slate-700 ${selected.id === s.id ? 'border-amber-300 bg-amber-50/60' : 'border-slate-100'}`}
+                >
+                  <input
+                    type="radio"
+                    name="export-scope"
+                    checked={selected.id === s.id}
+                    disabled={!!progress}
+                    onChange={() => setScope(s.id)}
+                    className="accent-amber-700"
+                  />
+                  {s.label}
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs font-bold text-slate-400">格式</span>
+              {AUDIO_EXPORT_FORMATS.map(f => (
+                <label key={f.id} className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === f.id}
+                    disabled={!!progress || (f.id === 'opus' && !opusSupported)}
+                    onChange={() => setFormat(f.id)}
+                    className="accent-amber-700"
+                  />
+                  {f.label}
+                </label>
+              ))}
+              {!opusSupported && <p className="text-xs text-slate-400">此瀏覽器不支援 Opus 壓縮，僅能匯出 WAV。</p>}
+              {selected.refs.length > 1 && (
+                <p className="text-xs text-slate-400">每章各存一個檔案，連同 M3U8 播放清單打包成一個 ZIP 檔；解壓縮後即可依序播放。</p>
+              )}
+            </div>
+
+            <button
+              onClick={handleExport}
+              className="flex items-center justify-center gap-2 w-full py-3 rounded-2xl bg-amber-900 text-white text-sm font-bold active:scale-95 transition-all"
+            >
+              {progress ? (
+                <>
+                  <Loader2 size={16} className="animate-spin" />
+                  產生中 {progress.done}/{progress.total}
+                  <X size={14} className="ml-1" />
+                </>
+              ) : (
+                <>
+                  <FileAudio size={16} />
+                  匯出
+                </>
+              )}
+            </button>
+
+            {status && <p className="text-xs text-slate-500 text-center">{status}</p>}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default AudioExportPanel;
@@ -0,0 +1,350 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MemoryVerse, ScriptureReference, SpeechChunk, TtsEngineId, TtsSettings } from './types';
+import {
+  deleteMemoryVerse, HINT_LEVELS, HintLevel, isDue, maskVerseText, qualityFromScore, REVIEW_GRADES,
+  reviewMemoryVerse, scoreRecitation, sortByDueDate,
+} from './memoryVerses';
+import { daysBetween, toDateKey } from './readingPlans';
+import { localizedBookName } from './translations';
+import { memoryVerseAudioKey, speechOptionsFor } from './narration';
+import { loadWithFallback, NarrationPlayer, selectTtsEngine, TtsEngine } from './ttsEngine';
+import { toGeminiError } from './geminiErrors';
+import { X, Brain, Trash2, Volume2, Loader2, Eye, EyeOff, Check } from 'lucide-react';
+
+interface MemoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  verses: MemoryVerse[];
+  tts: TtsSettings;
+  ttsEngine: TtsEngineId;
+  engines: TtsEngine[]; // Shared with chapter narration
+  onPlay: () => void; // Called before reading a verse, so chapter narration releases the shared players
+  onOpenPassage: (ref: ScriptureReference) => void;
+  onChanged: () => void; // Called after a review or deletion
+}
+
+type PracticeMode = 'hint' | 'type' | 'listen';
+
+const PRACTICE_MODES: { id: PracticeMode; label: string }[] = [
+  { id: 'hint', label: '漸進提示' },
+  { id: 'type', label: '默寫' },
+  { id: 'listen', label: '聆聽跟讀' },
+];
+
+const verseLabel = (verse: MemoryVerse) =>
+  `${localizedBookName(verse.bookId, verse.translation)} ${verse.chapter}:${verse.verse}${verse.endVerse ? `-${verse.endVerse}` : ''}`;
+
+const toReference = (verse: MemoryVerse): ScriptureReference => ({
+  bookId: verse.bookId,
+  chapter: verse.chapter,
+  verse: verse.verse,
+  endVerse: verse.endVerse,
+});
+
+const dueLabel = (verse: MemoryVerse, today: string) => {
+  const days = daysBetween(today, verse.schedule.dueDate);
+  return days <= 0 ? '今天複習' : days === 1 ? '明天複習' : `${days} 天後複習`;
+};
+
+// 熟練度越高，預設提示越少
+const defaultHintLevel = (verse: MemoryVerse): HintLevel =>
+  HINT_LEVELS[Math.min(verse.schedule.repetitions, HINT_LEVELS.length - 1)].id;
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ isOpen, onClose, verses, tts, ttsEngine, engines, onPlay, onOpenPassage, onChanged }) => {
+  const [queue, setQueue] = useState<MemoryVerse[] | null>(null); // Verses left in the current practice session
+  const [sessionSize, setSessionSize] = useState(0);
+  const [mode, setMode] = useState<PracticeMode>('hint');
+  const [hintLevel, setHintLevel] = useState<HintLevel>('full');
+  const [revealed, setRevealed] = useState(false);
+  const [typed, setTyped] = useState('');
+  const [score, setScore] = useState<number | null>(null); // Similarity of the typed recitation, 0-1
+  const [audioStatus, setAudioStatus] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const playerRef = useRef<NarrationPlayer | null>(null);
+  const audioAbortRef = useRef<AbortController | null>(null);
+
+  const today = toDateKey(new Date());
+  const sorted = sortByDueDate(verses);
+  const due = sorted.filter(v => isDue(v, today));
+  const current = queue?.[0] ?? null;
+
+  const stopAudio = () => {
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
+    playerRef.current?.unload();
+    playerRef.current = null;
+    setAudioStatus('idle');
+  };
+
+  useEffect(() => {
+    if (!isOpen) {
+      stopAudio();
+      setQueue(null);
+    }
+  }, [isOpen]);
+
+  // Start each verse from its default hint and a clean answer
+  useEffect(() => {
+    stopAudio();
+    setAudioError(null);
+    setRevealed(false);
+    setTyped('');
+    setScore(null);
+    if (current) setHintLevel(defaultHintLevel(current));
+  }, [current]);
+
+  const startPractice = (list: MemoryVerse[]) => {
+    setStatus(null);
+    setSessionSize(list.length);
+    setQueue(list);
+  };
+
+  /** Reads the verse with the preferred engine, falling back like chapter narration does. */
+  const playVerse = async (verse: MemoryVerse) => {
+    stopAudio();
+    if (!selectTtsEngine(engines, ttsEngine)) {
+      setAudioError('無法朗讀：未設定 API_KEY，且此瀏覽器不支援語音合成。');
+      return;
+    }
+    onPlay();
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
+    const chunk: SpeechChunk = { index: 0, verses: [{ number: verse.verse, text: verse.text }], text: verse.text };
+    setAudioError(null);
+    setAudioStatus('loading');
+
+    try {
+      await loadWithFallback(engines, ttsEngine, (engine) => {
+        playerRef.current?.unload();
+        const player = engine.player;
+        playerRef.current = player;
+        player.onEnded = () => setAudioStatus('idle');
+        return {
+          chunks: [chunk],
+          speech: speechOptionsFor(verse.translation, tts),
+          cacheKey: memoryVerseAudioKey(verse, tts),
+          signal: controller.signal,
+          isCancelled: () => controller.signal.aborted,
+          onTimings: () => {},
+          onReady: () => {
+            player.play(0);
+            setAudioStatus('playing');
+          },
+        };
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      playerRef.current?.unload();
+      setAudioStatus('idle');
+      setAudioError(`無法朗讀：${toGeminiError(error).message}`);
+    }
+  };
+
+  const grade = async (quality: number) => {
+    if (!current) return;
+    await reviewMemoryVerse(current, quality);
+    onChanged();
+    const rest = queue!.slice(1);
+    if (rest.length === 0) {
+      setQueue(null);
+      setStatus(`完成 ${sessionSize} 節經文的練習！`);
+    } else {
+      setQueue(rest);
+    }
+  };
+
+  const handleDelete = async (verse: MemoryVerse) => {
+    if (!window.confirm(`確定要將 ${verseLabel(verse)} 從背誦清單移除嗎？`)) return;
+    await deleteMemoryVerse(verse);
+    onChanged();
+  };
+
+  // Grade matching the typed recitation's score, highlighted as a suggestion
+  const suggestedGrade = score !== null
+    ? [...REVIEW_GRADES].reverse().find(g => g.quality <= qualityFromScore(score)) ?? REVIEW_GRADES[0]
+    : null;
+  const showText = revealed || (mode === 'type' && score !== null);
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <Brain className="text-amber-600" size={24} />
+              背誦經文
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          {current ? (
+            <div className="flex-1 overflow-y-auto p-6 space-y-5 scrollbar-hide">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-bold text-amber-900">{verseLabel(current)}</span>
+                <span className="flex items-center gap-3 text-xs text-slate-400">
+                  {sessionSize - queue!.length + 1}/{sessionSize}
+                  <button onClick={() => setQueue(null)} className="font-bold hover:text-amber-900">結束</button>
+                </span>
+              </div>
+
+              <div className="flex gap-1">
+                {PRACTICE_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => setMode(m.id)}
+                    className={`flex-1 px-3 py-1.5 rounded-full text-xs font-bold ${mode === m.id ? 'bg-amber-900 text-white' : 'bg-slate-100 text-slate-500'}`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'hint' && (
+                <div className="flex gap-1 overflow-x-auto scrollbar-hide">
+                  {HINT_LEVELS.map(level => (
+                    <button
+                      key={level.id}
+                      onClick={() => setHintLevel(level.id)}
+                      className={`px-3 py-1 rounded-full text-xs shrink-0 border ${hintLevel === level.id ? 'border-amber-300 bg-amber-50/60 text-amber-900 font-bold' : 'border-slate-100 text-slate-500'}`}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {mode === 'listen' && (
+                <div className="space-y-2">
+                  <button
+                    onClick={() => (audioStatus === 'idle' ? playVerse(current) : stopAudio())}
+                    className="flex items-center justify-center gap-2 w-full py-3 rounded-2xl bg-amber-900 text-white text-sm font-bold active:scale-95 transition-all"
+                  >
+                    {audioStatus === 'loading' ? <Loader2 size={16} className="animate-spin" /> : <Volume2 size={16} />}
+                    {audioStatus === 'idle' ? '播放經文' : audioStatus === 'loading' ? '準備中' : '停止'}
+                  </button>
+                  <p className="text-xs text-slate-400">聽完後跟著念一遍，再試著不看經文背出來。</p>
+                  {audioError && <p className="text-xs text-red-500">{audioError}</p>}
+                </div>
+              )}
+
+              <p className="serif-text text-lg leading-loose text-slate-800 p-4 rounded-2xl bg-slate-50 whitespace-pre-wrap">
+                {showText ? current.text : maskVerseText(current.text, mode === 'hint' ? hintLevel : 'blank')}
+              </p>
+
+              {mode === 'type' && (
+                <div className="space-y-2">
+                  <textarea
+                    value={typed}
+                    onChange={(e) => setTyped(e.target.value)}
+                    rows={4}
+                    disabled={score !== null}
+                    placeholder="憑記憶輸入這段經文…"
+                    className="w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500/30"
+                  />
+                  {score === null ? (
+                    <button
+                      onClick={() => setScore(scoreRecitation(current.text, typed))}
+                      disabled={!typed.trim()}
+                      className="w-full py-2 rounded-xl bg-amber-900 text-white text-sm font-bold disabled:opacity-50"
+                    >
+                      核對
+                    </button>
+                  ) : (
+                    <p className="text-xs text-slate-500 text-center">正確度 {Math.round(score * 100)}%（標點與空白不計）</p>
+                  )}
+                </div>
+              )}
+
+              {!(mode === 'type' && score !== null) && (
+                <button
+                  onClick={() => setRevealed(r => !r)}
+                  className="flex items-center gap-1 mx-auto text-xs font-bold text-slate-500 hover:text-amber-900"
+                >
+                  {revealed ? <EyeOff size={14} /> : <Eye size={14} />}
+                  {revealed ? '隱藏經文' : '顯示經文'}
+                </button>
+              )}
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">這次記得如何？</span>
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map(g => (
+                    <button
+                      key={g.id}
+                      onClick={() => grade(g.quality)}
+                      className={`py-2 rounded-xl text-xs font-bold ${
+                        suggestedGrade === g ? 'bg-amber-900 text-white'
+                          : 'bg-slate-100 text-slate-600'
+                      }`}
+                    >
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-hide">
+              <div className="flex items-center gap-3 p-4 rounded-2xl bg-amber-50 border border-amber-100">
+                <div className="flex-1">
+                  <p className="text-sm font-bold text-amber-900">今日待複習 {due.length} 節</p>
+                  <p className="text-xs text-slate-500">共 {verses.length} 節，依記憶曲線安排複習日期</p>
+                </div>
+                <button
+                  onClick={() => startPractice(due)}
+                  disabled={due.length === 0}
+                  className="px-4 py-2 rounded-xl bg-amber-900 text-white text-xs font-bold disabled:opacity-50"
+                >
+                  開始複習
+                </button>
+              </div>
+
+              {status && (
+                <p className="flex items-center justify-center gap-1 text-xs text-green-600 py-1">
+                  <Check size={14} />
+                  {status}
+                </p>
+              )}
+
+              {verses.length === 0 && (
+                <p className="text-sm text-slate-400 text-center py-10">
+                  還沒有背誦經文。點選經文後，按工具列的「加入背誦」即可加入。
+                </p>
+              )}
+              {sorted.map(verse => (
+                <div key={`${verse.bookId}-${verse.chapter}-${verse.verse}`} className="flex items-start gap-2 p-3 rounded-2xl border border-slate-100">
+                  <button onClick={() => onOpenPassage(toReference(verse))} className="flex-1 min-w-0 text-left space-y-1">
+                    <div className="flex items-center gap-2 text-xs font-bold text-amber-800">
+                      {verseLabel(verse)}
+                      <span className={isDue(verse, today) ? 'text-red-500' : 'text-slate-400 font-normal'}>{dueLabel(verse, today)}</span>
+                    </div>
+                    <p className="text-sm text-slate-700 line-clamp-2">{verse.text}</p>
+                  </button>
+                  <button
+                    onClick={() => startPractice([verse])}
+                    className="px-2 py-1 rounded-lg bg-slate-100 text-xs font-bold text-slate-600 hover:text-amber-900 shrink-0"
+                  >
+                    練習
+                  </button>
+                  <button onClick={() => handleDelete(verse)} className="p-1.5 text-slate-300 hover:text-red-500" title="移除">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default MemoryPanel;
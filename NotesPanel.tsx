@@ -0,0 +1,141 @@
+
+import React, { useEffect, useState } from 'react';
+import { ScriptureReference, VerseAnnotation } from './types';
+import { AnnotationSort, deleteAnnotation, getAllAnnotations, highlightClass, sortAnnotations } from './annotations';
+import { formatReference } from './referenceParser';
+import { X, NotebookPen, Bookmark, StickyNote, Trash2 } from 'lucide-react';
+
+interface NotesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenPassage: (ref: ScriptureReference) => void;
+  onChanged: () => void; // Called after an annotation is deleted here
+}
+
+type NotesFilter = 'all' | 'highlight' | 'bookmark' | 'note';
+
+const FILTERS: { id: NotesFilter; label: string }[] = [
+  { id: 'all', label: '全部' },
+  { id: 'highlight', label: '螢光筆' },
+  { id: 'bookmark', label: '書籤' },
+  { id: 'note', label: '筆記' },
+];
+
+const matchesFilter = (annotation: VerseAnnotation, filter: NotesFilter) =>
+  filter === 'all'
+  || (filter === 'highlight' && !!annotation.highlight)
+  || (filter === 'bookmark' && !!annotation.bookmarked)
+  || (filter === 'note' && !!annotation.note);
+
+const toReference = (annotation: VerseAnnotation): ScriptureReference => ({
+  bookId: annotation.bookId,
+  chapter: annotation.chapter,
+  verse: annotation.verse,
+  endVerse: annotation.noteEndVerse,
+});
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose, onOpenPassage, onChanged }) => {
+  const [annotations, setAnnotations] = useState<VerseAnnotation[]>([]);
+  const [filter, setFilter] = useState<NotesFilter>('all');
+  const [sort, setSort] = useState<AnnotationSort>('canonical');
+
+  const reload = () => {
+    getAllAnnotations()
+      .then(setAnnotations)
+      .catch(error => console.error("Annotations load error:", error));
+  };
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen]);
+
+  const handleDelete = async (annotation: VerseAnnotation) => {
+    if (!window.confirm(`確定要刪除 ${formatReference(toReference(annotation))} 的標記與筆記嗎？`)) return;
+    await deleteAnnotation(annotation);
+    reload();
+    onChanged();
+  };
+
+  const visible = sortAnnotations(annotations.filter(a => matchesFilter(a, filter)), sort);
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <NotebookPen className="text-amber-600" size={24} />
+              我的筆記
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="p-4 flex items-center gap-2 border-b border-slate-100">
+            <div className="flex flex-1 gap-1 overflow-x-auto scrollbar-hide">
+              {FILTERS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFilter(f.id)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold shrink-0 ${filter === f.id ? 'bg-amber-900 text-white' : 'bg-slate-100 text-slate-500'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as AnnotationSort)}
+              className="px-2 py-1.5 bg-white border border-slate-200 rounded-xl text-xs text-slate-600"
+            >
+              <option value="canonical">經卷順序</option>
+              <option value="date">最近更新</option>
+            </select>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-hide">
+            {visible.length === 0 && (
+              <p className="text-sm text-slate-400 text-center py-10">
+                還沒有標記。點選經文即可加上螢光筆、書籤或筆記。
+              </p>
+            )}
+            {visible.map(annotation => (
+              <div
+                key={`${annotation.bookId}-${annotation.chapter}-${annotation.verse}`}
+                className="flex items-start gap-2 p-3 rounded-2xl border border-slate-100"
+              >
+                <button
+                  onClick={() => onOpenPassage(toReference(annotation))}
+                  className="flex-1 text-left space-y-1"
+                >
+                  <div className="flex items-center gap-2 text-xs font-bold text-amber-800">
+                    {annotation.highlight && <span className={`w-3 h-3 rounded-full ${highlightClass(annotation.highlight)}`} />}
+                    {formatReference(toReference(annotation))}
+                    {annotation.bookmarked && <Bookmark size={12} fill="currentColor" className="text-amber-600" />}
+                    {annotation.note && <StickyNote size={12} className="text-amber-600" />}
+                  </div>
+                  {annotation.note && <p className="text-sm text-slate-700 whitespace-pre-wrap">{annotation.note}</p>}
+                  <p className="text-[10px] text-slate-400">{new Date(annotation.updatedAt).toLocaleString()}</p>
+                </button>
+                <button
+                  onClick={() => handleDelete(annotation)}
+                  className="p-1.5 text-slate-300 hover:text-red-500"
+                  title="刪除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default NotesPanel;
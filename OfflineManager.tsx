@@ -0,0 +1,150 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { BibleBook, TtsSettings } from './types';
+import { importBibleFiles } from './textProviders';
+import { downloadBookForOffline } from './offlineDownload';
+import { clearOfflineCache, getCacheUsage } from './offlineCache';
+import { getTranslation } from './translations';
+import { toGeminiError } from './geminiErrors';
+import { Upload, Download, Trash2, Loader2, X, FileAudio } from 'lucide-react';
+
+interface OfflineManagerProps {
+  selectedBook: BibleBook;
+  translation: string; // Imports and downloads go to this translation
+  tts: TtsSettings; // Narration settings used for downloaded audio
+  onTextImported: () => void;
+  onExportAudio: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const OfflineManager: React.FC<OfflineManagerProps> = ({ selectedBook, translation, tts, onTextImported, onExportAudio }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [usage, setUsage] = useState<{ chapters: number; audio: number; study: number } | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+
+  const refreshUsage = () => {
+    getCacheUsage().then(setUsage).catch(() => setUsage(null));
+  };
+
+  useEffect(() => {
+    refreshUsage();
+    return () => downloadAbortRef.current?.abort();
+  }, []);
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setStatus('匯入中…');
+    try {
+      const count = await importBibleFiles(files, translation);
+      setStatus(count > 0 ? `已匯入 ${count} 章經文` : '檔案中沒有可辨識的經文');
+      if (count > 0) onTextImported();
+    } catch (error) {
+      console.error("Import error:", error);
+      setStatus('匯入失敗，請確認檔案為 USFM 或 JSON 格式');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (downloadAbortRef.current) {
+      downloadAbortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setStatus(null);
+    setDownloadProgress({ done: 0, total: selectedBook.chapters });
+    try {
+      await downloadBookForOffline(selectedBook, {
+        translation,
+        includeAudio,
+        tts,
+        signal: controller.signal,
+        onProgress: (done, total) => setDownloadProgress({ done, total }),
+      });
+      setStatus(`《${selectedBook.name}》已可離線使用`);
+    } catch (error) {
+      const { kind, message } = toGeminiError(error);
+      if (kind !== 'cancelled') console.error("Download error:", error);
+      setStatus(kind === 'cancelled' ? '已停止下載' : `下載中斷：${message}`);
+    } finally {
+      downloadAbortRef.current = null;
+      setDownloadProgress(null);
+      refreshUsage();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('確定要清除所有離線經文與音訊快取嗎？')) return;
+    try {
+      await clearOfflineCache();
+      setStatus('已清除離線快取');
+    } catch (error) {
+      console.error("Cache clear error:", error);
+      setStatus('清除失敗，請確認瀏覽器允許本機儲存空間。');
+    } finally {
+      refreshUsage();
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-slate-100 safe-area-bottom space-y-2">
+      <label className="flex items-center justify-center gap-2 w-full py-2.5 rounded-2xl border border-dashed border-amber-300 text-amber-900 text-sm font-bold cursor-pointer hover:bg-amber-50 transition-all">
+        <Upload size={16} />
+        匯入{getTranslation(translation).name}經文檔 (USFM / JSON)
+        <input type="file" accept=".json,.usfm,.sfm,.txt" multiple className="hidden" onChange={handleImportFiles} />
+      </label>
+
+      <button
+        onClick={handleDownload}
+        className="flex items-center justify-center gap-2 w-full py-2.5 rounded-2xl bg-amber-50 text-amber-900 text-sm font-bold hover:bg-amber-100 transition-all"
+      >
+        {downloadProgress ? (
+          <>
+            <Loader2 size={16} className="animate-spin" />
+            下載中 {downloadProgress.done}/{downloadProgress.total}
+            <X size={14} className="ml-1" />
+          </>
+        ) : (
+          <>
+            <Download size={16} />
+            下載《{selectedBook.name}》供離線使用
+          </>
+        )}
+      </button>
+
+      <button
+        onClick={onExportAudio}
+        className="flex items-center justify-center gap-2 w-full py-2.5 rounded-2xl bg-amber-50 text-amber-900 text-sm font-bold hover:bg-amber-100 transition-all"
+      >
+        <FileAudio size={16} />
+        匯出朗讀音訊檔
+      </button>
+
+      <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={includeAudio}
+            disabled={!!downloadProgress}
+            onChange={(e) => setIncludeAudio(e.target.checked)}
+          />
+          包含朗讀音訊
+        </label>
+        <button onClick={handleClear} className="flex items-center gap-1 hover:text-red-600" title="清除離線快取">
+          <Trash2 size={12} />
+          {usage ? formatSize(usage.chapters + usage.audio + usage.study) : '—'}
+        </button>
+      </div>
+
+      {status && <p className="text-xs text-slate-500 text-center">{status}</p>}
+    </div>
+  );
+};
+
+export default OfflineManager;
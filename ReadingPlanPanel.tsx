@@ -0,0 +1,189 @@
+
+import React, { useState } from 'react';
+import { BIBLE_BOOKS } from './constants';
+import { ActivePlan, ChapterRef } from './types';
+import { BUILT_IN_PLANS, addDays, getPlanStatus, reschedulePlan, resolvePlan, toDateKey } from './readingPlans';
+import { X, CalendarDays, Check, RotateCcw } from 'lucide-react';
+
+interface ReadingPlanPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activePlan: ActivePlan | null;
+  onChangePlan: (plan: ActivePlan | null) => void;
+  isCompleted: (bookId: string, chapter: number) => boolean;
+  onOpenChapter: (ref: ChapterRef) => void;
+  onToggleChapter: (ref: ChapterRef) => void;
+}
+
+const bookName = (bookId: string) => BIBLE_BOOKS.find(b => b.id === bookId)?.name ?? bookId;
+
+const ReadingPlanPanel: React.FC<ReadingPlanPanelProps> = ({
+  isOpen, onClose, activePlan, onChangePlan, isCompleted, onOpenChapter, onToggleChapter,
+}) => {
+  const today = toDateKey(new Date());
+  const [startDate, setStartDate] = useState(today);
+  const [customFrom, setCustomFrom] = useState('MAT');
+  const [customTo, setCustomTo] = useState('JHN');
+  const [customEnd, setCustomEnd] = useState(addDays(today, 29));
+
+  const plan = activePlan ? resolvePlan(activePlan) : null;
+  const status = plan && activePlan ? getPlanStatus(plan, activePlan, isCompleted, today) : null;
+
+  const startCustomPlan = () => {
+    onChangePlan({
+      planId: 'custom',
+      startDate,
+      custom: { fromBookId: customFrom, toBookId: customTo, startDate, endDate: customEnd < startDate ? startDate : customEnd },
+    });
+  };
+
+  const renderChapterChip = (ref: ChapterRef) => {
+    const done = isCompleted(ref.bookId, ref.chapter);
+    return (
+      <div key={`${ref.bookId}-${ref.chapter}`} className="flex items-center gap-1">
+        <button
+          onClick={() => onOpenChapter(ref)}
+          className={`px-3 py-2 rounded-xl border text-sm font-bold transition-all active:scale-95 ${done ? 'bg-green-50 border-green-100 text-green-700' : 'bg-white border-slate-200 text-slate-700'}`}
+        >
+          {bookName(ref.bookId)} {ref.chapter}
+        </button>
+        <button
+          onClick={() => onToggleChapter(ref)}
+          className={`w-6 h-6 rounded-full flex items-center justify-center border ${done ? 'bg-green-500 border-green-600 text-white' : 'bg-white border-slate-200 text-slate-300'}`}
+          title={done ? '標記為未讀' : '標記為已讀'}
+        >
+          <Check size={12} strokeWidth={4} />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <CalendarDays className="text-amber-600" size={24} />
+              讀經計畫
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-hide">
+            {plan && status && activePlan ? (
+              <>
+                <section className="space-y-1">
+                  <h3 className="font-bold text-slate-900">{plan.name}</h3>
+                  <p className="text-xs text-slate-500">
+                    開始於 {activePlan.startDate}・第 {status.dayIndex + 1} / {plan.days.length} 天・已讀 {status.completedChapters}/{status.totalChapters} 章
+                  </p>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden mt-2">
+                    <div className="h-full bg-amber-600" style={{ width: `${(status.completedChapters / status.totalChapters) * 100}%` }} />
+                  </div>
+                </section>
+
+                <section className={`p-3 rounded-2xl text-sm font-bold ${status.daysBehind > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                  {status.isFinished
+                    ? '恭喜！已完成整個讀經計畫'
+                    : status.daysBehind > 0
+                      ? `進度落後 ${status.daysBehind} 天`
+                      : status.daysAhead > 0
+                        ? `進度超前 ${status.daysAhead} 天`
+                        : '進度正常，繼續加油'}
+                  {status.daysBehind > 0 && (
+                    <button
+                      onClick={() => onChangePlan(reschedulePlan(activePlan, status, today))}
+                      className="flex items-center gap-1 mt-2 text-xs font-bold text-red-800 underline"
+                    >
+                      <RotateCcw size={12} />
+                      重新安排：從今天接續未讀的進度
+                    </button>
+                  )}
+                </section>
+
+                <section className="space-y-2">
+                  <h4 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">今日讀經</h4>
+                  {status.todaysReading.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">{status.todaysReading.map(renderChapterChip)}</div>
+                  ) : (
+                    <p className="text-sm text-slate-400">計畫將於 {activePlan.startDate} 開始</p>
+                  )}
+                </section>
+
+                {status.daysBehind > 0 && (
+                  <section className="space-y-2">
+                    <h4 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">待補進度</h4>
+                    {plan.days.slice(status.firstIncompleteDay, status.dayIndex).map((day, i) => (
+                      <div key={i} className="space-y-1">
+                        <p className="text-xs text-slate-500">第 {status.firstIncompleteDay + i + 1} 天・{addDays(activePlan.startDate, status.firstIncompleteDay + i)}</p>
+                        <div className="flex flex-wrap gap-2">{day.map(renderChapterChip)}</div>
+                      </div>
+                    ))}
+                  </section>
+                )}
+
+                <button
+                  onClick={() => window.confirm('確定要結束目前的讀經計畫嗎？（已讀紀錄會保留）') && onChangePlan(null)}
+                  className="w-full py-2.5 rounded-2xl border border-slate-200 text-slate-500 text-sm font-bold"
+                >
+                  結束計畫
+                </button>
+              </>
+            ) : (
+              <>
+                <section className="space-y-2">
+                  <label className="text-xs font-bold text-slate-500 flex items-center justify-between">
+                    開始日期
+                    <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value || today)} className="px-2 py-1 border border-slate-200 rounded-lg" />
+                  </label>
+                  <p className="text-[11px] text-slate-400">小組成員選擇相同計畫與開始日期，即可按同一進度讀經。</p>
+                </section>
+
+                <section className="space-y-2">
+                  {BUILT_IN_PLANS.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => onChangePlan({ planId: p.id, startDate })}
+                      className="w-full text-left p-4 rounded-2xl border border-slate-100 hover:bg-amber-50 transition-all"
+                    >
+                      <div className="font-bold text-slate-900">{p.name}</div>
+                      <div className="text-xs text-slate-500 mt-1">{p.description}</div>
+                    </button>
+                  ))}
+                </section>
+
+                <section className="space-y-2 p-4 rounded-2xl bg-slate-50">
+                  <h4 className="font-bold text-slate-900 text-sm">自訂計畫</h4>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} className="px-2 py-2 border border-slate-200 rounded-lg text-sm">
+                      {BIBLE_BOOKS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                    </select>
+                    <select value={customTo} onChange={(e) => setCustomTo(e.target.value)} className="px-2 py-2 border border-slate-200 rounded-lg text-sm">
+                      {BIBLE_BOOKS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                    </select>
+                  </div>
+                  <label className="text-xs font-bold text-slate-500 flex items-center justify-between">
+                    結束日期
+                    <input type="date" value={customEnd} min={startDate} onChange={(e) => setCustomEnd(e.target.value || startDate)} className="px-2 py-1 border border-slate-200 rounded-lg" />
+                  </label>
+                  <button onClick={startCustomPlan} className="w-full py-2.5 rounded-2xl bg-amber-900 text-white text-sm font-bold">
+                    開始自訂計畫
+                  </button>
+                </section>
+              </>
+            )}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default ReadingPlanPanel;
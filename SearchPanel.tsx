@@ -0,0 +1,147 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BIBLE_BOOKS } from './constants';
+import { ScriptureReference, SearchFilter, SearchResponse } from './types';
+import { searchBible } from './bibleSearch';
+import { SEARCH_RESULT_LIMIT } from './searchIndex';
+import { getTranslation, localizedBookName } from './translations';
+import { X, TextSearch, Loader2 } from 'lucide-react';
+
+interface SearchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  translation: string;
+  onOpenResult: (ref: ScriptureReference) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// 搜尋範圍：全部、舊約、新約或單一書卷
+const toFilter = (scope: string): SearchFilter =>
+  scope === 'all' ? {} : scope === 'Old' || scope === 'New' ? { testament: scope } : { bookId: scope };
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ isOpen, onClose, translation, onOpenResult }) => {
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState('all');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const searchIdRef = useRef(0); // Ignores results of superseded searches
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    if (!isOpen || !query.trim()) {
+      setResponse(null);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const result = await searchBible(query, toFilter(scope), translation);
+        if (searchId !== searchIdRef.current) return;
+        setResponse(result);
+        setError(null);
+      } catch (err) {
+        if (searchId !== searchIdRef.current) return;
+        console.error("Search error:", err);
+        setError('搜尋失敗，請稍後再試');
+      } finally {
+        if (searchId === searchIdRef.current) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, scope, isOpen, translation]);
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <TextSearch className="text-amber-600" size={24} />
+              經文搜尋
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-2 border-b border-slate-100">
+            <input
+              ref={inputRef}
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="輸入字詞，如 神愛世人；加引號搜尋完整片語"
+              className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-amber-500/30"
+            />
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-600"
+            >
+              <option value="all">全本聖經</option>
+              <option value="Old">舊約</option>
+              <option value="New">新約</option>
+              {BIBLE_BOOKS.map(book => <option key={book.id} value={book.id}>{localizedBookName(book.id, translation)}</option>)}
+            </select>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-hide">
+            {isSearching && (
+              <div className="flex items-center gap-2 text-sm text-slate-400">
+                <Loader2 size={16} className="animate-spin" />
+                搜尋中…
+              </div>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {!isSearching && response && response.indexedChapters === 0 && (
+              <p className="text-sm text-slate-500">
+                裝置上還沒有可搜尋的經文。請在目錄下方匯入經文檔或下載經卷，之後即可離線搜尋。
+              </p>
+            )}
+            {!isSearching && response && response.indexedChapters > 0 && (
+              <>
+                <p className="text-xs text-slate-400">
+                  找到 {response.total} 節
+                  {response.total > SEARCH_RESULT_LIMIT && `，僅顯示前 ${SEARCH_RESULT_LIMIT} 節`}
+                  （{getTranslation(translation).name}已索引 {response.indexedChapters} 章）
+                </p>
+                {response.results.map(result => (
+                  <button
+                    key={`${result.bookId}-${result.chapter}-${result.verse}`}
+                    onClick={() => onOpenResult({ bookId: result.bookId, chapter: result.chapter, verse: result.verse })}
+                    className="w-full text-left p-3 rounded-2xl border border-slate-100 hover:bg-amber-50/60 transition-colors"
+                  >
+                    <div className="text-xs font-bold text-amber-800 mb-1">
+                      {localizedBookName(result.bookId, translation)} {result.chapter}:{result.verse}
+                    </div>
+                    <div className="serif-text text-sm text-slate-700 leading-relaxed">
+                      {result.snippet.map((part, i) =>
+                        part.match
+                          ? <mark key={i} className="bg-amber-200 text-amber-950 rounded px-0.5">{part.text}</mark>
+                          : <React.Fragment key={i}>{part.text}</React.Fragment>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,229 @@
+
+import React from 'react';
+import { TTS_VOICES } from './constants';
+import { AppearanceSettings, ChineseDialect, TtsEngineId, TtsSettings } from './types';
+import { LINE_HEIGHTS, READER_FONTS, READER_MARGINS, THEMES } from './appearance';
+import { FONT_SIZE_RANGE } from './settings';
+import { READING_STYLES } from './narration';
+import { getTranslation } from './translations';
+import { TTS_ENGINE_LABELS } from './ttsEngine';
+import { X, Settings, Mic, Palette } from 'lucide-react';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  translation: string;
+  tts: TtsSettings;
+  onTtsChange: (tts: TtsSettings) => void;
+  ttsEngine: TtsEngineId;
+  onTtsEngineChange: (engine: TtsEngineId) => void;
+  appearance: AppearanceSettings;
+  onAppearanceChange: (appearance: AppearanceSettings) => void;
+  fontSize: number;
+  onFontSizeChange: (fontSize: number) => void;
+}
+
+const DIALECTS: { id: ChineseDialect; label: string }[] = [
+  { id: 'mandarin', label: '國語' },
+  { id: 'cantonese', label: '粵語' },
+];
+
+// 一排互斥選項，選中者以深色標示
+const OptionButtons = <T extends string | number>({ options, value, onChange }: {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (id: T) => void;
+}) => (
+  <div className="flex gap-2">
+    {options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`flex-1 px-3 py-2 rounded-xl text-sm font-bold ${value === option.id ? 'bg-amber-900 text-white' : 'bg-slate-100 text-slate-500'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  isOpen, onClose, translation, tts, onTtsChange, ttsEngine, onTtsEngineChange,
+  appearance, onAppearanceChange, fontSize, onFontSizeChange,
+}) => {
+  const update = (change: Partial<TtsSettings>) => onTtsChange({ ...tts, ...change });
+  const updateAppearance = (change: Partial<AppearanceSettings>) => onAppearanceChange({ ...appearance, ...change });
+  const isEnglish = getTranslation(translation).language === 'en';
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <Settings className="text-amber-600" size={24} />
+              設定
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-hide">
+            <section className="space-y-4">
+              <h3 className="text-sm font-bold text-slate-500 flex items-center gap-2">
+                <Palette size={16} />
+                外觀
+              </h3>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">主題</span>
+                <OptionButtons options={THEMES} value={appearance.theme} onChange={(theme) => updateAppearance({ theme })} />
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-bold text-slate-400">字級 {fontSize}px</span>
+                <input
+                  type="range"
+                  min={FONT_SIZE_RANGE.min}
+                  max={FONT_SIZE_RANGE.max}
+                  step={2}
+                  value={fontSize}
+                  onChange={(e) => onFontSizeChange(Number(e.target.value))}
+                  className="w-full accent-amber-700"
+                />
+              </label>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">字型</span>
+                <OptionButtons options={READER_FONTS} value={appearance.font} onChange={(font) => updateAppearance({ font })} />
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">行距</span>
+                <OptionButtons
+                  options={LINE_HEIGHTS.map(height => ({ id: height, label: height.toFixed(1) }))}
+                  value={appearance.lineHeight}
+                  onChange={(lineHeight) => updateAppearance({ lineHeight })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">邊距</span>
+                <OptionButtons options={READER_MARGINS} value={appearance.margin} onChange={(margin) => updateAppearance({ margin })} />
+              </div>
+
+              <label className="flex items-center gap-3 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={appearance.vertical}
+                  onChange={(e) => updateAppearance({ vertical: e.target.checked })}
+                  className="accent-amber-700"
+                />
+                中文經文直排{isEnglish && '（英文譯本不適用）'}
+              </label>
+              <label className="flex items-center gap-3 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={appearance.showVerseNumbers}
+                  onChange={(e) => updateAppearance({ showVerseNumbers: e.target.checked })}
+                  className="accent-amber-700"
+                />
+                顯示節數
+              </label>
+              <label className="flex items-center gap-3 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={appearance.showHeadings}
+                  onChange={(e) => updateAppearance({ showHeadings: e.target.checked })}
+                  className="accent-amber-700"
+                />
+                顯示段落標題
+              </label>
+            </section>
+
+            <section className="space-y-4">
+              <h3 className="text-sm font-bold text-slate-500 flex items-center gap-2">
+                <Mic size={16} />
+                朗讀
+              </h3>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">朗讀引擎</span>
+                <OptionButtons
+                  options={(Object.keys(TTS_ENGINE_LABELS) as TtsEngineId[]).map(engine => ({ id: engine, label: TTS_ENGINE_LABELS[engine] }))}
+                  value={ttsEngine}
+                  onChange={onTtsEngineChange}
+                />
+                <p className="text-xs text-slate-400">
+                  選用的引擎無法使用時（如未設定 API_KEY 或離線）會自動改用另一個。瀏覽器語音不需網路，但聲音與風格設定僅適用於 Gemini。
+                </p>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-bold text-slate-400">聲音</span>
+                <select
+                  value={tts.voice}
+                  onChange={(e) => update({ voice: e.target.value })}
+                  className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-600"
+                >
+                  {TTS_VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+                </select>
+              </label>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">朗讀風格</span>
+                {READING_STYLES.map(style => (
+                  <label
+                    key={style.id}
+                    className={`flex items-start gap-3 p-3 rounded-2xl border cursor-pointer ${tts.style === style.id ? 'border-amber-300 bg-amber-50/60' : 'border-slate-100'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="reading-style"
+                      checked={tts.style === style.id}
+                      onChange={() => update({ style: style.id })}
+                      className="mt-1 accent-amber-700"
+                    />
+                    <span>
+                      <span className="block text-sm font-bold text-slate-700">{style.label}</span>
+                      <span className="block text-xs text-slate-400">{style.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-xs font-bold text-slate-400">中文經文朗讀語言</span>
+                <OptionButtons options={DIALECTS} value={tts.dialect} onChange={(dialect) => update({ dialect })} />
+                <p className="text-xs text-slate-400">
+                  英文譯本一律以英語朗讀{isEnglish && '（目前的譯本為英文）'}。
+                </p>
+              </div>
+
+              <label className="flex items-center gap-3 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={tts.announceChapter}
+                  onChange={(e) => update({ announceChapter: e.target.checked })}
+                  className="accent-amber-700"
+                />
+                每章開頭先念出書卷與章數
+              </label>
+
+              <p className="text-xs text-slate-400">
+                變更朗讀設定後，已快取的語音需重新產生；離線下載的語音只適用於下載時的設定。
+              </p>
+            </section>
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default SettingsPanel;
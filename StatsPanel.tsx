@@ -0,0 +1,183 @@
+
+import React, { useMemo, useState } from 'react';
+import { ListeningStats, ReadingProgress } from './types';
+import { computeStats } from './progress';
+import { BackupError, ImportResult } from './backup';
+import { addDays, toDateKey } from './readingPlans';
+import { X, BarChart3, Flame, Trophy, Headphones, BookOpen, Download, Upload } from 'lucide-react';
+
+interface StatsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  progress: ReadingProgress;
+  listeningStats: ListeningStats;
+  onExportBackup: () => void;
+  onImportBackup: (file: File) => Promise<ImportResult>;
+}
+
+const HEATMAP_WEEKS = 20;
+
+const percent = ({ completed, total }: { completed: number; total: number }) =>
+  total > 0 ? Math.round((completed / total) * 1000) / 10 : 0;
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} 小時 ${minutes % 60} 分` : `${minutes} 分鐘`;
+};
+
+const heatColor = (count: number) =>
+  count === 0 ? 'bg-slate-100' : count < 2 ? 'bg-amber-200' : count < 4 ? 'bg-amber-400' : count < 8 ? 'bg-amber-600' : 'bg-amber-800';
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ isOpen, onClose, progress, listeningStats, onExportBackup, onImportBackup }) => {
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  const stats = useMemo(() => computeStats(progress, listeningStats), [progress, listeningStats]);
+
+  // Columns are weeks (oldest first), rows are Sunday–Saturday
+  const heatmap = useMemo(() => {
+    const today = new Date();
+    const todayKey = toDateKey(today);
+    const start = addDays(todayKey, -(HEATMAP_WEEKS - 1) * 7 - today.getDay());
+    return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, day) => {
+        const date = addDays(start, week * 7 + day);
+        return { date, count: date > todayKey ? -1 : stats.activityByDate[date] || 0 };
+      })
+    );
+  }, [stats]);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = await onImportBackup(file);
+      setBackupStatus([
+        `已合併 ${result.addedChapters} 章新的讀經紀錄`,
+        result.updatedAnnotations > 0 ? `${result.updatedAnnotations} 則標記與筆記` : '',
+        result.updatedMemoryVerses > 0 ? `${result.updatedMemoryVerses} 節背誦經文` : '',
+        result.settingsApplied ? '已套用備份中較新的設定' : '保留本機較新的設定',
+        result.skippedEntries > 0 ? `略過 ${result.skippedEntries} 筆無效資料` : '',
+      ].filter(Boolean).join('，'));
+    } catch (error) {
+      console.error("Backup import error:", error);
+      setBackupStatus(error instanceof BackupError ? error.message : '匯入失敗，請確認檔案內容');
+    }
+  };
+
+  const summary = [
+    { label: '全本聖經', value: stats.bible },
+    { label: '舊約', value: stats.oldTestament },
+    { label: '新約', value: stats.newTestament },
+  ];
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+              <BarChart3 className="text-amber-600" size={24} />
+              讀經統計
+            </h2>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          {isOpen && (
+            <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-hide">
+              <section className="grid grid-cols-3 gap-2">
+                {summary.map(({ label, value }) => (
+                  <div key={label} className="p-3 rounded-2xl bg-amber-50 text-center">
+                    <div className="text-xl font-black text-amber-900">{percent(value)}%</div>
+                    <div className="text-[11px] font-bold text-slate-500">{label}</div>
+                    <div className="text-[10px] text-slate-400">{value.completed}/{value.total} 章</div>
+                  </div>
+                ))}
+              </section>
+
+              <section className="grid grid-cols-2 gap-2 text-sm">
+                <div className="flex items-center gap-2 p-3 rounded-2xl border border-slate-100">
+                  <Flame size={18} className="text-orange-500" />
+                  <span>目前連續 <b>{stats.currentStreak}</b> 天</span>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-2xl border border-slate-100">
+                  <Trophy size={18} className="text-amber-500" />
+                  <span>最長連續 <b>{stats.longestStreak}</b> 天</span>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-2xl border border-slate-100">
+                  <Headphones size={18} className="text-amber-700" />
+                  <span>收聽 <b>{formatDuration(stats.totalListeningSeconds)}</b></span>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-2xl border border-slate-100">
+                  <BookOpen size={18} className="text-amber-700" />
+                  <span>閱讀 {stats.readCount}・聆聽 {stats.listenCount} 章</span>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">讀經紀錄</h4>
+                <div className="flex gap-[3px] overflow-x-auto scrollbar-hide">
+                  {heatmap.map((week, i) => (
+                    <div key={i} className="flex flex-col gap-[3px]">
+                      {week.map(({ date, count }) => (
+                        <div
+                          key={date}
+                          title={count >= 0 ? `${date}：${count}` : undefined}
+                          className={`w-3 h-3 rounded-sm ${count < 0 ? 'bg-transparent' : heatColor(count)}`}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">各卷進度</h4>
+                {stats.books.map(book => (
+                  <div key={book.bookId} className="flex items-center gap-3 text-xs">
+                    <span className="w-20 shrink-0 text-slate-600 truncate">{book.name}</span>
+                    <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${book.completed === book.total ? 'bg-green-500' : 'bg-amber-500'}`}
+                        style={{ width: `${(book.completed / book.total) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-12 text-right text-slate-400 tabular-nums">{book.completed}/{book.total}</span>
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-2 p-4 rounded-2xl bg-slate-50">
+                <h4 className="font-bold text-slate-900 text-sm">備份與轉移</h4>
+                <p className="text-[11px] text-slate-500">匯出的檔案包含讀經紀錄、標記與筆記、收聽時間與設定，可在其他裝置匯入合併。</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={onExportBackup}
+                    className="flex items-center justify-center gap-2 py-2.5 rounded-2xl bg-amber-900 text-white text-sm font-bold"
+                  >
+                    <Download size={16} />
+                    匯出備份
+                  </button>
+                  <label className="flex items-center justify-center gap-2 py-2.5 rounded-2xl border border-amber-300 text-amber-900 text-sm font-bold cursor-pointer">
+                    <Upload size={16} />
+                    匯入備份
+                    <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+                  </label>
+                </div>
+                {backupStatus && <p className="text-xs text-slate-500">{backupStatus}</p>}
+              </section>
+            </div>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,177 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChapterContent, PassageStudy, ScriptureReference, StudyPassage } from './types';
+import { generatePassageStudy } from './geminiService';
+import { GeminiError, toGeminiError } from './geminiErrors';
+import { formatVerseList, parseReference } from './referenceParser';
+import { localizedBookName } from './translations';
+import { X, Lightbulb, Loader2, RotateCw, Sparkles, ChevronRight, AlertTriangle } from 'lucide-react';
+
+interface StudyPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  passage: StudyPassage | null;
+  content: ChapterContent | null; // Loaded chapter of the passage
+  translation: string;
+  onOpenReference: (ref: ScriptureReference) => void;
+}
+
+const StudyPanel: React.FC<StudyPanelProps> = ({ isOpen, onClose, passage, content, translation, onOpenReference }) => {
+  const [study, setStudy] = useState<PassageStudy | null>(null);
+  const [error, setError] = useState<GeminiError | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isReady = !!passage && content?.bookId === passage.bookId && content.chapter === passage.chapter;
+  const label = passage
+    ? `${localizedBookName(passage.bookId, translation)} ${passage.chapter}${passage.verses.length > 0 ? `:${formatVerseList(passage.verses)}` : ''}`
+    : '';
+
+  /** Reads the cached notes unless `refresh` asks for new ones. */
+  const loadStudy = (refresh: boolean) => {
+    if (!passage || !content) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStudy(null);
+    setError(null);
+    setIsLoading(true);
+    generatePassageStudy(passage, content, translation, { refresh, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setStudy(result);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setError(toGeminiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+  };
+
+  useEffect(() => {
+    if (!isOpen || !isReady) return;
+    loadStudy(false);
+    return () => abortRef.current?.abort();
+  }, [isOpen, isReady, label, translation]);
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40" onClick={onClose} />}
+      <aside className={`
+        fixed inset-y-0 right-0 z-50 w-full sm:w-96 bg-white border-l border-slate-200 transition-transform duration-300 ease-in-out
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        <div className="flex flex-col h-full safe-area-top">
+          <div className="p-6 border-b border-slate-100 bg-[#fdfaf6] flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-amber-900 flex items-center gap-2">
+                <Lightbulb className="text-amber-600" size={24} />
+                研讀助手
+              </h2>
+              {label && <p className="text-xs text-slate-500 mt-1">{label}</p>}
+            </div>
+            <button className="p-2 text-slate-500 hover:bg-slate-100 rounded-full" onClick={onClose}>
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-hide">
+            <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50 border border-amber-100 text-amber-900 text-xs">
+              <Sparkles size={14} className="shrink-0" />
+              <span className="flex-1">以下內容由 AI（Gemini）產生，僅供查經參考，請以聖經原文為準。</span>
+            </div>
+
+            {(isLoading || (isOpen && !isReady)) && (
+              <div className="flex items-center justify-center gap-2 py-12 text-sm text-slate-400">
+                <Loader2 size={18} className="animate-spin" />
+                正在準備研讀資料…
+              </div>
+            )}
+
+            {error && !isLoading && (
+              <div className="text-center space-y-3 py-6">
+                <AlertTriangle size={28} className="mx-auto text-amber-500" />
+                <p className="text-sm text-slate-600">{error.message}</p>
+                {error.kind !== 'missing-key' && (
+                  <button
+                    onClick={() => loadStudy(false)}
+                    className="px-4 py-1.5 rounded-xl bg-amber-900 text-white text-xs font-bold"
+                  >
+                    重試
+                  </button>
+                )}
+              </div>
+            )}
+
+            {study && !isLoading && (
+              <>
+                <section className="space-y-1">
+                  <h3 className="text-xs font-bold text-slate-400">摘要</h3>
+                  <p className="text-sm text-slate-700 leading-relaxed">{study.summary}</p>
+                </section>
+
+                {study.context && (
+                  <section className="space-y-1">
+                    <h3 className="text-xs font-bold text-slate-400">歷史背景</h3>
+                    <p className="text-sm text-slate-700 leading-relaxed">{study.context}</p>
+                  </section>
+                )}
+
+                {study.crossReferences.length > 0 && (
+                  <section className="space-y-1">
+                    <h3 className="text-xs font-bold text-slate-400">相關經文</h3>
+                    {study.crossReferences.map((item, i) => {
+                      const ref = parseReference(item.reference);
+                      return ref ? (
+                        <button
+                          key={i}
+                          onClick={() => onOpenReference(ref)}
+                          className="flex items-start gap-2 w-full p-3 rounded-2xl border border-slate-100 hover:border-amber-200 hover:bg-amber-50/50 text-left transition-colors"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <span className="text-sm font-bold text-amber-900">{item.reference}</span>
+                            <p className="text-xs text-slate-500 mt-0.5">{item.note}</p>
+                          </div>
+                          <ChevronRight size={16} className="shrink-0 mt-0.5 text-slate-300" />
+                        </button>
+                      ) : (
+                        // Unrecognized references are shown without a link
+                        <div key={i} className="p-3 rounded-2xl border border-slate-100">
+                          <span className="text-sm font-bold text-slate-700">{item.reference}</span>
+                          <p className="text-xs text-slate-500 mt-0.5">{item.note}</p>
+                        </div>
+                      );
+                    })}
+                  </section>
+                )}
+
+                {study.questions.length > 0 && (
+                  <section className="space-y-1">
+                    <h3 className="text-xs font-bold text-slate-400">小組討論問題</h3>
+                    <ol className="list-decimal pl-5 space-y-2 text-sm text-slate-700 leading-relaxed">
+                      {study.questions.map((question, i) => <li key={i}>{question}</li>)}
+                    </ol>
+                  </section>
+                )}
+
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                  <span>產生於 {new Date(study.generatedAt).toLocaleDateString('zh-TW')}</span>
+                  <button
+                    onClick={() => loadStudy(true)}
+                    className="flex items-center gap-1 hover:text-amber-900"
+                    title="重新產生"
+                  >
+                    <RotateCw size={12} />
+                    重新產生
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default StudyPanel;
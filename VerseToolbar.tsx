@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { HIGHLIGHT_COLORS } from './annotations';
+import { HighlightColor } from './types';
+import { Bookmark, StickyNote, Volume2, X, Eraser, Lightbulb, Brain } from 'lucide-react';
+
+interface VerseToolbarProps {
+  label: string; // Reference of the selected verses, e.g. 約翰福音 3:16-18
+  highlight: HighlightColor | null; // Shared by every selected verse, otherwise null
+  bookmarked: boolean; // True when every selected verse is bookmarked
+  memorized: boolean; // The selected range is on the memorization list
+  note: string; // Note on the first selected verse
+  onHighlight: (color: HighlightColor | null) => void;
+  onToggleBookmark: () => void;
+  onSaveNote: (note: string) => void;
+  onPlay: () => void;
+  onStudy: () => void; // Opens AI study notes for the selection
+  onToggleMemorize: () => void;
+  onClose: () => void;
+}
+
+const VerseToolbar: React.FC<VerseToolbarProps> = ({
+  label, highlight, bookmarked, memorized, note, onHighlight, onToggleBookmark, onSaveNote, onPlay, onStudy, onToggleMemorize, onClose,
+}) => {
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  // Start from the saved note whenever the selection changes
+  useEffect(() => {
+    setDraft(note);
+    setIsEditingNote(false);
+  }, [label, note]);
+
+  return (
+    <div className="px-1 pb-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-amber-900 truncate flex-1">{label}</span>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600" title="取消選取">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {HIGHLIGHT_COLORS.map(color => (
+          <button
+            key={color.id}
+            onClick={() => onHighlight(highlight === color.id ? null : color.id)}
+            className={`w-7 h-7 rounded-full border-2 ${color.className} ${highlight === color.id ? 'border-amber-900' : 'border-white shadow-sm'}`}
+            title={`${color.label}螢光筆`}
+          />
+        ))}
+        <button onClick={() => onHighlight(null)} className="p-1.5 text-slate-400 hover:text-slate-600" title="清除螢光筆">
+          <Eraser size={16} />
+        </button>
+
+        <div className="w-[1px] h-5 bg-slate-200 mx-1" />
+
+        <button
+          onClick={onToggleBookmark}
+          className={`p-1.5 rounded-lg ${bookmarked ? 'text-amber-600' : 'text-slate-500 hover:text-amber-900'}`}
+          title={bookmarked ? '移除書籤' : '加入書籤'}
+        >
+          <Bookmark size={18} fill={bookmarked ? 'currentColor' : 'none'} />
+        </button>
+        <button
+          onClick={() => setIsEditingNote(e => !e)}
+          className={`p-1.5 rounded-lg ${note ? 'text-amber-600' : 'text-slate-500 hover:text-amber-900'}`}
+          title="筆記"
+        >
+          <StickyNote size={18} />
+        </button>
+        <button onClick={onPlay} className="p-1.5 rounded-lg text-slate-500 hover:text-amber-900" title="從這裡朗讀">
+          <Volume2 size={18} />
+        </button>
+        <button
+          onClick={onToggleMemorize}
+          className={`p-1.5 rounded-lg ${memorized ? 'text-amber-600' : 'text-slate-500 hover:text-amber-900'}`}
+          title={memorized ? '移出背誦清單' : '加入背誦'}
+        >
+          <Brain size={18} />
+        </button>
+        <button onClick={onStudy} className="p-1.5 rounded-lg text-slate-500 hover:text-amber-900" title="研讀助手">
+          <Lightbulb size={18} />
+        </button>
+      </div>
+
+      {isEditingNote && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            autoFocus
+            placeholder="寫下你的默想或筆記…"
+            className="w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500/30"
+          />
+          <div className="flex justify-end gap-2">
+            {note && (
+              <button onClick={() => onSaveNote('')} className="px-3 py-1.5 text-xs font-bold text-red-500">
+                刪除筆記
+              </button>
+            )}
+            <button
+              onClick={() => onSaveNote(draft)}
+              className="px-4 py-1.5 rounded-xl bg-amber-900 text-white text-xs font-bold"
+            >
+              儲存
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerseToolbar;
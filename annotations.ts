@@ -0,0 +1,131 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { HighlightColor, VerseAnnotation } from './types';
+import { idbDelete, idbGetAll, idbPutMany, STORES } from './idb';
+import { isInteger, isRecord } from './validation';
+
+// 螢光筆顏色與對應的樣式
+export const HIGHLIGHT_COLORS: { id: HighlightColor; label: string; className: string }[] = [
+  { id: 'yellow', label: '黃色', className: 'bg-yellow-200/70' },
+  { id: 'green', label: '綠色', className: 'bg-green-200/70' },
+  { id: 'blue', label: '藍色', className: 'bg-sky-200/70' },
+  { id: 'pink', label: '粉紅', className: 'bg-pink-200/70' },
+];
+
+export const highlightClass = (color?: HighlightColor) =>
+  HIGHLIGHT_COLORS.find(c => c.id === color)?.className ?? '';
+
+/** Keyed by book id, chapter and verse so annotations do not depend on the loaded text. */
+export const annotationKey = (bookId: string, chapter: number, verse: number) => `${bookId}:${chapter}:${verse}`;
+
+const isEmpty = (annotation: VerseAnnotation) => !annotation.highlight && !annotation.bookmarked && !annotation.note;
+
+/** Annotations of one chapter, by verse number. */
+export const getChapterAnnotations = async (bookId: string, chapter: number) => {
+  const list = await idbGetAll<VerseAnnotation>(STORES.annotations, `${bookId}:${chapter}:`);
+  return Object.fromEntries(list.map(a => [a.verse, a])) as Record<number, VerseAnnotation>;
+};
+
+export const getAllAnnotations = () => idbGetAll<VerseAnnotation>(STORES.annotations);
+
+/** Writes annotations and removes the ones left without a highlight, bookmark or note. */
+export const saveAnnotations = async (annotations: VerseAnnotation[]) => {
+  const kept = annotations.filter(a => !isEmpty(a));
+  await idbPutMany(STORES.annotations, kept.map(a => [annotationKey(a.bookId, a.chapter, a.verse), a] as [string, VerseAnnotation]));
+  for (const removed of annotations.filter(isEmpty)) {
+    await idbDelete(STORES.annotations, annotationKey(removed.bookId, removed.chapter, removed.verse));
+  }
+};
+
+const blankAnnotation = (bookId: string, chapter: number, verse: number, now: string): VerseAnnotation =>
+  ({ bookId, chapter, verse, createdAt: now, updatedAt: now });
+
+export type AnnotationChange =
+  | { highlight: HighlightColor | null }
+  | { bookmarked: boolean }
+  | { note: string }; // An empty note removes it
+
+/**
+ * Applies a change to the selected verses of a chapter and returns the
+ * chapter's updated annotations. A note written for several verses is kept
+ * once, on the first verse, with `noteEndVerse` marking the range.
+ */
+export const updateAnnotations = async (
+  current: Record<number, VerseAnnotation>,
+  bookId: string,
+  chapter: number,
+  verses: number[],
+  change: AnnotationChange
+) => {
+  const now = new Date().toISOString();
+  const sorted = [...verses].sort((a, b) => a - b);
+  const targets = 'note' in change ? sorted.slice(0, 1) : sorted;
+  const updated = targets.map(verse => {
+    const annotation = { ...(current[verse] ?? blankAnnotation(bookId, chapter, verse, now)), updatedAt: now };
+    if ('highlight' in change) {
+      if (change.highlight) annotation.highlight = change.highlight; else delete annotation.highlight;
+    } else if ('bookmarked' in change) {
+      if (change.bookmarked) annotation.bookmarked = true; else delete annotation.bookmarked;
+    } else {
+      const note = change.note.trim();
+      const last = sorted[sorted.length - 1];
+      if (note) annotation.note = note; else delete annotation.note;
+      if (note && last > verse) annotation.noteEndVerse = last; else delete annotation.noteEndVerse;
+    }
+    return annotation;
+  });
+  await saveAnnotations(updated);
+
+  const next = { ...current };
+  for (const annotation of updated) {
+    if (isEmpty(annotation)) delete next[annotation.verse]; else next[annotation.verse] = annotation;
+  }
+  return next;
+};
+
+export const deleteAnnotation = (annotation: VerseAnnotation) =>
+  idbDelete(STORES.annotations, annotationKey(annotation.bookId, annotation.chapter, annotation.verse));
+
+// --- Listing ---
+
+export type AnnotationSort = 'canonical' | 'date';
+
+export const sortAnnotations = (list: VerseAnnotation[], sort: AnnotationSort) => {
+  const bookOrder = new Map(BIBLE_BOOKS.map((b, i) => [b.id, i]));
+  return [...list].sort((a, b) =>
+    sort === 'date'
+      ? b.updatedAt.localeCompare(a.updatedAt)
+      : (bookOrder.get(a.bookId) ?? 0) - (bookOrder.get(b.bookId) ?? 0) || a.chapter - b.chapter || a.verse - b.verse
+  );
+};
+
+// --- Backup ---
+
+const COLOR_IDS = new Set<string>(HIGHLIGHT_COLORS.map(c => c.id));
+
+/** Checks an annotation read from a backup file against `BIBLE_BOOKS`. */
+export const isValidAnnotation = (value: unknown): value is VerseAnnotation => {
+  if (!isRecord(value)) return false;
+  const book = BIBLE_BOOKS.find(b => b.id === value.bookId);
+  if (!book) return false;
+  const { chapter, verse, highlight, bookmarked, note, noteEndVerse, createdAt, updatedAt } = value;
+  return isInteger(chapter) && chapter >= 1 && chapter <= book.chapters
+    && isInteger(verse) && verse >= 1
+    && (highlight === undefined || (typeof highlight === 'string' && COLOR_IDS.has(highlight)))
+    && (bookmarked === undefined || typeof bookmarked === 'boolean')
+    && (note === undefined || typeof note === 'string')
+    && (noteEndVerse === undefined || (isInteger(noteEndVerse) && noteEndVerse > verse))
+    && typeof createdAt === 'string' && typeof updatedAt === 'string'
+    && (!!highlight || !!bookmarked || !!note); // Empty annotations are never stored
+};
+
+/** Adds annotations from a backup; when both sides have a verse the newer edit wins. Returns how many changed. */
+export const mergeAnnotations = async (incoming: VerseAnnotation[]) => {
+  const local = new Map((await getAllAnnotations()).map(a => [annotationKey(a.bookId, a.chapter, a.verse), a]));
+  const changed = incoming.filter(a => {
+    const existing = local.get(annotationKey(a.bookId, a.chapter, a.verse));
+    return !existing || a.updatedAt > existing.updatedAt;
+  });
+  await saveAnnotations(changed);
+  return changed.length;
+};
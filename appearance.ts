@@ -0,0 +1,75 @@
+
+import { AppearanceSettings, ReaderFont, ReaderMargin, ThemeMode } from './types';
+import { isRecord } from './validation';
+
+export const DEFAULT_APPEARANCE: AppearanceSettings = {
+  theme: 'system',
+  lineHeight: 2.2,
+  margin: 'normal',
+  font: 'serif',
+  vertical: false,
+  showVerseNumbers: true,
+  showHeadings: true,
+};
+
+export const THEMES: { id: ThemeMode; label: string }[] = [
+  { id: 'system', label: '跟隨系統' },
+  { id: 'light', label: '淺色' },
+  { id: 'sepia', label: '米黃' },
+  { id: 'dark', label: '深色' },
+];
+
+export const LINE_HEIGHTS = [1.6, 1.9, 2.2, 2.6];
+
+// 經文左右留白（直排時為上下）
+export const READER_MARGINS: { id: ReaderMargin; label: string; padding: string }[] = [
+  { id: 'narrow', label: '窄', padding: '1ch' },
+  { id: 'normal', label: '標準', padding: '2ch' },
+  { id: 'wide', label: '寬', padding: '4ch' },
+];
+
+export const READER_FONTS: { id: ReaderFont; label: string; className: string }[] = [
+  { id: 'serif', label: '明體', className: 'serif-text' },
+  { id: 'sans', label: '黑體', className: 'font-sans' },
+];
+
+// 與 index.html 中各主題的背景色一致，用於瀏覽器的 theme-color
+const THEME_COLORS: Record<Exclude<ThemeMode, 'system'>, string> = {
+  light: '#fdfaf6',
+  sepia: '#f4ecd8',
+  dark: '#14161a',
+};
+
+/** Validates appearance preferences read from storage or a backup file. */
+export const isValidAppearance = (value: unknown): value is AppearanceSettings =>
+  isRecord(value)
+  && THEMES.some(t => t.id === value.theme)
+  && typeof value.lineHeight === 'number' && LINE_HEIGHTS.includes(value.lineHeight)
+  && READER_MARGINS.some(m => m.id === value.margin)
+  && READER_FONTS.some(f => f.id === value.font)
+  && typeof value.vertical === 'boolean'
+  && typeof value.showVerseNumbers === 'boolean'
+  && typeof value.showHeadings === 'boolean';
+
+const prefersDark = () => window.matchMedia?.('(prefers-color-scheme: dark)').matches ?? false;
+
+export const resolveTheme = (theme: ThemeMode) => (theme === 'system' ? (prefersDark() ? 'dark' : 'light') : theme);
+
+/**
+ * Applies a theme to the whole document through `data-theme`, which the
+ * stylesheet in index.html uses to recolor the shared palette. Returns a
+ * cleanup that stops following the system preference.
+ */
+export const applyTheme = (theme: ThemeMode) => {
+  const update = () => {
+    const resolved = resolveTheme(theme);
+    if (resolved === 'light') delete document.documentElement.dataset.theme;
+    else document.documentElement.dataset.theme = resolved;
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[resolved]);
+  };
+  update();
+  if (theme !== 'system' || !window.matchMedia) return () => {};
+  const query = window.matchMedia('(prefers-color-scheme: dark)');
+  query.addEventListener('change', update);
+  return () => query.removeEventListener('change', update);
+};
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { concatPcm, encodeOggOpus, encodeWav, PcmAudio, pcmDuration } from './audioEncoding';
+
+const pcmOf = (seconds: number, sampleRate = 24000, channels = 1): PcmAudio => ({
+  data: new Uint8Array(seconds * sampleRate * channels * 2),
+  sampleRate,
+  channels,
+});
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+describe('concatPcm', () => {
+  it('joins parts of the same format', () => {
+    const joined = concatPcm([pcmOf(1), pcmOf(2)]);
+    expect(pcmDuration(joined)).toBe(3);
+  });
+
+  it('rejects empty input and mixed formats', () => {
+    expect(() => concatPcm([])).toThrow('PCM_EMPTY');
+    expect(() => concatPcm([pcmOf(1), pcmOf(1, 48000)])).toThrow('PCM_FORMAT_MISMATCH');
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a RIFF header from the sample rate and channel count', async () => {
+    const pcm = pcmOf(1, 24000, 2);
+    const bytes = new Uint8Array(await encodeWav(pcm).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(ascii(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint32(40, true)).toBe(pcm.data.length);
+  });
+});
+
+// --- Ogg Opus, with a stand-in for the WebCodecs encoder ---
+
+const FRAME_SAMPLES = 480; // 20 ms at 24 kHz
+const PACKET_BYTES = 300; // Two lacing segments per packet
+const PRE_SKIP = 120;
+
+const opusHead = (preSkip: number) => {
+  const view = new DataView(new ArrayBuffer(19));
+  'OpusHead'.split('').forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setUint16(10, preSkip, true);
+  return view.buffer;
+};
+
+class FakeAudioData {
+  readonly numberOfFrames: number;
+  constructor(init: { numberOfFrames: number }) {
+    this.numberOfFrames = init.numberOfFrames;
+  }
+  close() {}
+}
+
+const fakeEncoder = (description?: ArrayBuffer) => class {
+  private sentConfig = false;
+  constructor(private readonly init: { output: (chunk: unknown, metadata?: unknown) => void }) {}
+  configure() {}
+  encode(data: FakeAudioData) {
+    for (let i = 0; i < data.numberOfFrames; i += FRAME_SAMPLES) {
+      const chunk = { byteLength: PACKET_BYTES, duration: 20000, copyTo: (dest: Uint8Array) => dest.fill(7) };
+      const metadata = !this.sentConfig && description ? { decoderConfig: { description } } : undefined;
+      this.sentConfig = true;
+      this.init.output(chunk, metadata);
+    }
+  }
+  async flush() {}
+  close() {}
+};
+
+// CRC-32 with polynomial 0x04c11db7, as Ogg uses it
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+};
+
+interface ParsedPage {
+  flags: number;
+  granule: number;
+  sequence: number;
+  segments: number[];
+  body: Uint8Array;
+  crcValid: boolean;
+}
+
+const parseOgg = (bytes: Uint8Array) => {
+  const pages: ParsedPage[] = [];
+  for (let offset = 0; offset < bytes.length;) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    expect(ascii(bytes, offset, 4)).toBe('OggS');
+    const segments = [...bytes.subarray(offset + 27, offset + 27 + view.getUint8(26))];
+    const length = 27 + segments.length + segments.reduce((sum, s) => sum + s, 0);
+    const page = bytes.slice(offset, offset + length);
+    const crc = new DataView(page.buffer).getUint32(22, true);
+    new DataView(page.buffer).setUint32(22, 0, true);
+    pages.push({
+      flags: view.getUint8(5),
+      granule: Number(view.getBigUint64(6, true)),
+      sequence: view.getUint32(18, true),
+      segments,
+      body: bytes.subarray(offset + 27 + segments.length, offset + length),
+      crcValid: oggCrc(page) === crc,
+    });
+    offset += length;
+  }
+  return pages;
+};
+
+const encode = async (description: ArrayBuffer | undefined, seconds = 3) => {
+  vi.stubGlobal('AudioEncoder', fakeEncoder(description));
+  const blob = await encodeOggOpus(pcmOf(seconds), 'John 3');
+  return parseOgg(new Uint8Array(await blob.arrayBuffer()));
+};
+
+describe('encodeOggOpus', () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioData', FakeAudioData);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes header pages followed by audio pages with valid checksums', async () => {
+    const pages = await encode(opusHead(PRE_SKIP));
+    expect(pages.every(p => p.crcValid)).toBe(true);
+    expect(pages.map(p => p.sequence)).toEqual(pages.map((_, i) => i));
+    expect(ascii(pages[0].body, 0, 8)).toBe('OpusHead');
+    expect(pages[0].flags).toBe(0x02);
+    expect(ascii(pages[1].body, 0, 8)).toBe('OpusTags');
+    expect(new TextDecoder().decode(pages[1].body)).toContain('TITLE=John 3');
+    expect(pages[pages.length - 1].flags & 0x04).toBe(0x04);
+  });
+
+  it('takes the pre-skip from the encoder and counts granules from zero', async () => {
+    const pages = await encode(opusHead(PRE_SKIP));
+    expect(new DataView(pages[0].body.buffer, pages[0].body.byteOffset).getUint16(10, true)).toBe(PRE_SKIP);
+    const audio = pages.slice(2);
+    // 150 packets of two segments each; a page holds at most 255 segments
+    expect(audio.map(p => p.segments.length)).toEqual([254, 46]);
+    expect(audio[0].granule).toBe(127 * 960);
+    expect(audio[1].granule).toBe(PRE_SKIP + 3 * 48000);
+    expect(pages[0].granule).toBe(0);
+    expect(pages[1].granule).toBe(0);
+  });
+
+  it('falls back to the libopus pre-skip when the encoder does not describe itself', async () => {
+    const pages = await encode(undefined, 1);
+    expect(new DataView(pages[0].body.buffer, pages[0].body.byteOffset).getUint16(10, true)).toBe(312);
+    expect(pages[pages.length - 1].granule).toBe(312 + 48000);
+  });
+
+  it('ignores a description that is not an OpusHead', async () => {
+    const pages = await encode(new ArrayBuffer(4), 1);
+    expect(new DataView(pages[0].body.buffer, pages[0].body.byteOffset).getUint16(10, true)).toBe(312);
+  });
+});
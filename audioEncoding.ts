@@ -0,0 +1,247 @@
+
+// 將 TTS 回傳的 16-bit PCM 封裝成可分享的音訊檔：WAV（通用）與 Ogg Opus（瀏覽器 WebCodecs 壓縮）
+export interface PcmAudio {
+  data: Uint8Array<ArrayBuffer>; // Interleaved 16-bit little-endian samples
+  sampleRate: number;
+  channels: number;
+}
+
+/** Joins PCM parts of the same format, e.g. the narration chunks of a chapter. */
+export const concatPcm = (parts: PcmAudio[]): PcmAudio => {
+  const [first] = parts;
+  if (!first) throw new Error("PCM_EMPTY");
+  if (parts.some(p => p.sampleRate !== first.sampleRate || p.channels !== first.channels)) {
+    throw new Error("PCM_FORMAT_MISMATCH");
+  }
+  const data = new Uint8Array(parts.reduce((sum, p) => sum + p.data.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part.data, offset);
+    offset += part.data.length;
+  }
+  return { data, sampleRate: first.sampleRate, channels: first.channels };
+};
+
+export const pcmDuration = (pcm: PcmAudio) => pcm.data.length / 2 / pcm.channels / pcm.sampleRate;
+
+// --- WAV ---
+
+const WAV_HEADER_BYTES = 44;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/** A RIFF/WAVE file with a PCM `fmt ` chunk built from the sample rate and channel count. */
+export const encodeWav = (pcm: PcmAudio) => {
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const blockAlign = pcm.channels * 2;
+  writeAscii(header, 0, 'RIFF');
+  header.setUint32(4, WAV_HEADER_BYTES - 8 + pcm.data.length, true);
+  writeAscii(header, 8, 'WAVE');
+  writeAscii(header, 12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, pcm.channels, true);
+  header.setUint32(24, pcm.sampleRate, true);
+  header.setUint32(28, pcm.sampleRate * blockAlign, true); // Byte rate
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, 16, true); // Bits per sample
+  writeAscii(header, 36, 'data');
+  header.setUint32(40, pcm.data.length, true);
+  return new Blob([header.buffer, pcm.data], { type: 'audio/wav' });
+};
+
+// --- Ogg Opus ---
+
+const OPUS_BITRATE = 32000; // Plenty for speech
+const OPUS_GRANULE_RATE = 48000; // Ogg Opus granule positions always count 48 kHz samples
+const OPUS_PRE_SKIP = 312; // libopus encoder lookahead at 48 kHz, used when the encoder doesn't report its own
+const ENCODE_FRAMES = 24000; // Frames per AudioData handed to the encoder
+const MAX_PAGE_SEGMENTS = 255;
+
+const opusConfig = (pcm: PcmAudio): AudioEncoderConfig => ({
+  codec: 'opus',
+  sampleRate: pcm.sampleRate,
+  numberOfChannels: pcm.channels,
+  bitrate: OPUS_BITRATE,
+});
+
+/** True when the browser can encode Opus with WebCodecs. */
+export const isOpusEncodingSupported = async (sampleRate = 24000, channels = 1) => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(
+      opusConfig({ data: new Uint8Array(), sampleRate, channels })
+    );
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+interface OggPage {
+  packets: Uint8Array[];
+  granule: number;
+  flags: number; // 0x02 first page, 0x04 last page
+}
+
+const buildOggPage = (page: OggPage, serial: number, sequence: number) => {
+  const lacing: number[] = [];
+  for (const packet of page.packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const bodyLength = page.packets.reduce((sum, p) => sum + p.length, 0);
+  const bytes = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(bytes.buffer);
+  writeAscii(view, 0, 'OggS');
+  view.setUint8(5, page.flags);
+  view.setBigUint64(6, BigInt(page.granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  bytes.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of page.packets) {
+    bytes.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(bytes), true);
+  return bytes;
+};
+
+/** Pre-skip from the OpusHead the encoder describes itself with, if it gives one. */
+const readPreSkip = (description: AllowSharedBufferSource) => {
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(10, true);
+};
+
+const opusHead = (pcm: PcmAudio, preSkip: number) => {
+  const view = new DataView(new ArrayBuffer(19));
+  writeAscii(view, 0, 'OpusHead');
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, pcm.channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, pcm.sampleRate, true); // Original input rate, informational
+  view.setUint16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Channel mapping family for mono and stereo
+  return new Uint8Array(view.buffer);
+};
+
+const opusTags = (title?: string) => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode('GraceAudio Bible');
+  const comments = title ? [encoder.encode(`TITLE=${title}`)] : [];
+  const length = 8 + 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  writeAscii(view, 0, 'OpusTags');
+  view.setUint32(8, vendor.length, true);
+  bytes.set(vendor, 12);
+  let offset = 12 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    bytes.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  }
+  return bytes;
+};
+
+const toPlanarFloat = (pcm: PcmAudio, startFrame: number, frames: number) => {
+  const samples = new Int16Array(pcm.data.buffer, pcm.data.byteOffset, pcm.data.length / 2);
+  const planar = new Float32Array(frames * pcm.channels);
+  for (let channel = 0; channel < pcm.channels; channel++) {
+    for (let i = 0; i < frames; i++) {
+      planar[channel * frames + i] = samples[(startFrame + i) * pcm.channels + channel] / 32768;
+    }
+  }
+  return planar;
+};
+
+/** Compresses PCM to Opus with the browser's WebCodecs encoder and wraps it in an Ogg container. */
+export const encodeOggOpus = async (pcm: PcmAudio, title?: string) => {
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let encodeError: unknown = null;
+  let preSkip = OPUS_PRE_SKIP;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description) preSkip = readPreSkip(description) ?? preSkip;
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Duration is in microseconds; Opus frames default to 20 ms
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_GRANULE_RATE) / 1e6) });
+    },
+    error: (error) => { encodeError = error; },
+  });
+  encoder.configure(opusConfig(pcm));
+
+  const totalFrames = pcm.data.length / 2 / pcm.channels;
+  for (let start = 0; start < totalFrames; start += ENCODE_FRAMES) {
+    const frames = Math.min(ENCODE_FRAMES, totalFrames - start);
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: pcm.sampleRate,
+      numberOfChannels: pcm.channels,
+      numberOfFrames: frames,
+      timestamp: Math.round((start / pcm.sampleRate) * 1e6),
+      data: toPlanarFloat(pcm, start, frames),
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+  if (packets.length === 0) throw new Error("OPUS_EMPTY");
+
+  // The last granule position trims the encoder's padding at the end
+  const endGranule = preSkip + Math.round((totalFrames * OPUS_GRANULE_RATE) / pcm.sampleRate);
+  const pages: OggPage[] = [
+    { packets: [opusHead(pcm, preSkip)], granule: 0, flags: 0x02 },
+    { packets: [opusTags(title)], granule: 0, flags: 0 },
+  ];
+  let page: OggPage = { packets: [], granule: 0, flags: 0 }; // Granules count decoded samples, pre-skip included
+  let segments = 0;
+  for (const packet of packets) {
+    const packetSegments = Math.floor(packet.data.length / 255) + 1;
+    if (segments + packetSegments > MAX_PAGE_SEGMENTS) {
+      pages.push(page);
+      page = { packets: [], granule: page.granule, flags: 0 };
+      segments = 0;
+    }
+    page.packets.push(packet.data);
+    page.granule = Math.min(page.granule + packet.samples, endGranule);
+    segments += packetSegments;
+  }
+  page.granule = endGranule;
+  page.flags |= 0x04;
+  pages.push(page);
+
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  return new Blob(pages.map((p, i) => buildOggPage(p, serial, i)), { type: 'audio/ogg' });
+};
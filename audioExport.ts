@@ -0,0 +1,93 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { ChapterRef, TtsSettings } from './types';
+import { fetchChapterText } from './textProviders';
+import { decodeBase64, streamSpeechChunks } from './geminiService';
+import { buildSpeechChunks, chapterAudioKey, speechOptionsFor } from './narration';
+import { concatPcm, encodeOggOpus, encodeWav, PcmAudio, pcmDuration } from './audioEncoding';
+import { localizedBookName } from './translations';
+import { downloadBlob } from './fileDownload';
+import { buildZip, ZipEntry } from './zipArchive';
+
+export type AudioExportFormat = 'wav' | 'opus';
+
+export const AUDIO_EXPORT_FORMATS: { id: AudioExportFormat; label: string; extension: string }[] = [
+  { id: 'wav', label: 'WAV（不壓縮，相容性最佳）', extension: 'wav' },
+  { id: 'opus', label: 'Opus（壓縮，檔案小）', extension: 'opus' },
+];
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  translation: string;
+  tts: TtsSettings;
+  playlistName?: string; // Names the ZIP and its M3U8 playlist when more than one chapter is exported
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface PlaylistEntry {
+  title: string;
+  fileName: string;
+  seconds: number;
+}
+
+const chapterTitle = (ref: ChapterRef, translation: string) => `${localizedBookName(ref.bookId, translation)} ${ref.chapter}`;
+
+// 章數補零，讓檔案依經卷順序排列
+const chapterFileName = (ref: ChapterRef, translation: string, extension: string) => {
+  const book = BIBLE_BOOKS.find(b => b.id === ref.bookId)!;
+  const chapter = String(ref.chapter).padStart(String(book.chapters).length, '0');
+  return `${localizedBookName(ref.bookId, translation)} ${chapter}.${extension}`;
+};
+
+/** Extended M3U (saved as UTF-8 .m3u8) listing the exported files by relative name, so it works from the same folder. */
+export const buildM3uPlaylist = (entries: PlaylistEntry[]) =>
+  ['#EXTM3U', ...entries.flatMap(e => [`#EXTINF:${Math.round(e.seconds)},${e.title}`, e.fileName]), ''].join('\n');
+
+/** Narration of a whole chapter as PCM; chunks already in the audio cache are reused. */
+export const synthesizeChapterPcm = async (ref: ChapterRef, translation: string, tts: TtsSettings, signal?: AbortSignal) => {
+  const book = BIBLE_BOOKS.find(b => b.id === ref.bookId);
+  if (!book) throw new Error("BOOK_NOT_FOUND");
+  const content = await fetchChapterText(book, ref.chapter, translation, signal);
+  const parts: PcmAudio[] = [];
+  await streamSpeechChunks(buildSpeechChunks(content, translation, tts), {
+    speech: speechOptionsFor(translation, tts),
+    chapterCacheKey: chapterAudioKey(translation, ref.bookId, ref.chapter, tts),
+    signal,
+    onChunk: (_, audio) => {
+      parts.push({ data: decodeBase64(audio.data), sampleRate: audio.sampleRate, channels: audio.channels });
+    },
+  });
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+  return concatPcm(parts);
+};
+
+/**
+ * Synthesizes the chapters one by one and saves them as audio files. Several
+ * chapters are saved as one ZIP, with an M3U8 playlist that plays them in
+ * order, since browsers block repeated downloads outside a user gesture.
+ */
+export const exportChapterAudio = async (refs: ChapterRef[], options: AudioExportOptions) => {
+  const { format, translation, tts, playlistName, signal, onProgress } = options;
+  const extension = AUDIO_EXPORT_FORMATS.find(f => f.id === format)!.extension;
+  const entries: PlaylistEntry[] = [];
+  const files: ZipEntry[] = [];
+
+  for (const ref of refs) {
+    const pcm = await synthesizeChapterPcm(ref, translation, tts, signal);
+    const title = chapterTitle(ref, translation);
+    const blob = format === 'opus' ? await encodeOggOpus(pcm, title) : encodeWav(pcm);
+    const fileName = chapterFileName(ref, translation, extension);
+    files.push({ name: fileName, data: blob });
+    entries.push({ title, fileName, seconds: pcmDuration(pcm) });
+    onProgress?.(entries.length, refs.length);
+  }
+
+  if (files.length === 1) {
+    downloadBlob(files[0].data, files[0].name);
+    return;
+  }
+  const name = playlistName || chapterTitle(refs[0], translation);
+  files.push({ name: `${name}.m3u8`, data: new Blob([buildM3uPlaylist(entries)], { type: 'audio/x-mpegurl' }) });
+  downloadBlob(await buildZip(files), `${name}.zip`);
+};
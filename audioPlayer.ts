@@ -0,0 +1,239 @@
+
+// 以 AudioContext 播放已解碼的經文音訊，支援分段串流、暫停/續播、跳轉、播放速度與淡出
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+export const SLEEP_TIMER_MINUTES = [15, 30, 60];
+export const SLEEP_FADE_SECONDS = 10;
+
+interface Segment {
+  buffer: AudioBuffer;
+  start: number; // Position of the segment on the chapter timeline, in seconds
+}
+
+interface ScheduledSource {
+  node: AudioBufferSourceNode;
+  segment: Segment;
+  offset: number; // Offset within the segment where playback starts
+  when: number; // ctx.currentTime at which the node starts
+}
+
+// 經由 <audio> 元素輸出，行動瀏覽器才會視為媒體播放，顯示鎖定畫面控制並在關閉螢幕後繼續播放
+const createMediaElement = (ctx: AudioContext, output: AudioNode) => {
+  if (typeof ctx.createMediaStreamDestination !== 'function' || typeof Audio === 'undefined') return null;
+  const destination = ctx.createMediaStreamDestination();
+  output.connect(destination);
+  const element = new Audio();
+  element.srcObject = destination.stream;
+  return element;
+};
+
+export class ChapterAudioPlayer {
+  private readonly ctx: AudioContext;
+  private readonly output: GainNode;
+  private element: HTMLAudioElement | null; // Null when the output goes straight to the speakers
+  private segments: Segment[] = [];
+  private expectedSegments = 0;
+  private scheduled: ScheduledSource[] = [];
+  private scheduledEnd = 0; // ctx time at which the last scheduled node finishes
+  private offset = 0; // Position in seconds while paused
+  private rate = 1;
+  private playing = false;
+
+  /** Called when playback reaches the end of the final segment (not when paused or stopped). */
+  onEnded: (() => void) | null = null;
+
+  constructor(ctx: AudioContext) {
+    this.ctx = ctx;
+    this.output = ctx.createGain();
+    this.element = createMediaElement(ctx, this.output);
+    if (!this.element) this.output.connect(ctx.destination);
+  }
+
+  get isLoaded() {
+    return this.segments.length > 0;
+  }
+
+  /** True once every expected segment has been appended. */
+  get isComplete() {
+    return this.segments.length >= this.expectedSegments;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  /** Waiting for the next segment to arrive while playing. */
+  get isBuffering() {
+    return this.playing && !this.isComplete && this.position >= this.duration - 0.05;
+  }
+
+  get duration() {
+    const last = this.segments[this.segments.length - 1];
+    return last ? last.start + last.buffer.duration : 0;
+  }
+
+  get playbackRate() {
+    return this.rate;
+  }
+
+  get position() {
+    if (!this.playing) return this.offset;
+    const now = this.ctx.currentTime;
+    let current: ScheduledSource | undefined;
+    for (const entry of this.scheduled) {
+      if (entry.when <= now) current = entry;
+    }
+    if (!current) return this.scheduled[0] ? this.scheduled[0].segment.start + this.scheduled[0].offset : this.offset;
+    const within = current.offset + (now - current.when) * this.rate;
+    return current.segment.start + Math.min(within, current.segment.buffer.duration);
+  }
+
+  /** Clears any loaded audio and prepares for a stream of `expectedSegments` buffers. */
+  reset(expectedSegments: number) {
+    this.stopSources();
+    this.element?.pause();
+    this.playing = false;
+    this.segments = [];
+    this.expectedSegments = expectedSegments;
+    this.offset = 0;
+  }
+
+  /** Appends the next decoded segment; if playback is running it continues gaplessly. */
+  appendSegment(buffer: AudioBuffer) {
+    const segment = { buffer, start: this.duration };
+    this.segments.push(segment);
+    if (this.playing) this.schedule(segment, 0);
+  }
+
+  /** Expects `count` more segments after the loaded ones, e.g. when retrying the rest of a truncated chapter. */
+  extendLoading(count: number) {
+    this.expectedSegments = this.segments.length + count;
+  }
+
+  /** Stops expecting further segments, e.g. after a synthesis failure. */
+  finishLoading() {
+    this.expectedSegments = this.segments.length;
+    if (this.playing && this.scheduledEnd <= this.ctx.currentTime) this.handleEnded();
+  }
+
+  play(from: number = this.offset) {
+    if (!this.isLoaded) return;
+    this.stopSources();
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+
+    let target = Math.max(0, Math.min(from, this.duration));
+    if (this.isComplete && target >= this.duration) target = 0;
+
+    this.restoreVolume();
+    this.element?.play().catch(error => {
+      console.warn("Media element playback failed, using direct output:", error);
+      this.useDirectOutput();
+    });
+    this.playing = true;
+    this.offset = target;
+    this.scheduledEnd = this.ctx.currentTime;
+    for (const segment of this.segments) {
+      const end = segment.start + segment.buffer.duration;
+      if (end <= target) continue;
+      this.schedule(segment, Math.max(0, target - segment.start));
+    }
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.offset = this.position;
+    this.playing = false;
+    this.stopSources();
+    this.element?.pause();
+  }
+
+  seek(time: number) {
+    const target = Math.max(0, Math.min(time, this.duration));
+    if (this.playing) {
+      this.play(target);
+    } else {
+      this.offset = target;
+    }
+  }
+
+  skip(seconds: number) {
+    this.seek(this.position + seconds);
+  }
+
+  setPlaybackRate(rate: number) {
+    this.rate = rate;
+    // Scheduled start times depend on the rate, so reschedule from the current position
+    if (this.playing) this.play(this.position);
+  }
+
+  /** Gradually lowers the volume to silence; resolves when the fade has finished. */
+  fadeOut(seconds: number) {
+    const gain = this.output.gain;
+    const now = this.ctx.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0.0001, now + seconds);
+    return new Promise<void>(resolve => window.setTimeout(resolve, seconds * 1000));
+  }
+
+  restoreVolume() {
+    const gain = this.output.gain;
+    gain.cancelScheduledValues(this.ctx.currentTime);
+    gain.setValueAtTime(1, this.ctx.currentTime);
+  }
+
+  /** Stops playback and releases the decoded audio. */
+  unload() {
+    this.reset(0);
+  }
+
+  private schedule(segment: Segment, offset: number) {
+    const node = this.ctx.createBufferSource();
+    node.buffer = segment.buffer;
+    node.playbackRate.value = this.rate;
+    node.connect(this.output);
+
+    const when = Math.max(this.ctx.currentTime, this.scheduledEnd);
+    const entry: ScheduledSource = { node, segment, offset, when };
+    node.onended = () => {
+      // onended also fires after stop(); only the final scheduled node ends playback
+      if (!this.scheduled.includes(entry)) return;
+      const isLast = this.scheduled[this.scheduled.length - 1] === entry;
+      if (isLast && this.isComplete) this.handleEnded();
+    };
+    node.start(when, offset);
+    this.scheduled.push(entry);
+    this.scheduledEnd = when + (segment.buffer.duration - offset) / this.rate;
+  }
+
+  private useDirectOutput() {
+    if (!this.element) return;
+    this.element.pause();
+    this.element = null;
+    this.output.disconnect();
+    this.output.connect(this.ctx.destination);
+  }
+
+  private handleEnded() {
+    this.stopSources();
+    this.element?.pause();
+    this.playing = false;
+    this.offset = 0;
+    this.onEnded?.();
+  }
+
+  private stopSources() {
+    const scheduled = this.scheduled;
+    this.scheduled = [];
+    for (const { node } of scheduled) {
+      try { node.stop(); } catch (e) {}
+      node.disconnect();
+    }
+  }
+}
+
+export const formatTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
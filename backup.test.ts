@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_APP_ID, BACKUP_VERSION, BackupError, mergeListening, mergeProgress, parseBackup } from './backup';
+
+describe('mergeProgress', () => {
+  it('adds chapters that only the backup has', () => {
+    const local = { GEN: { 1: { completedAt: '2026-01-01T00:00:00.000Z', via: 'read' as const } } };
+    const incoming = {
+      GEN: { 2: { completedAt: '2026-01-02T00:00:00.000Z', via: 'listen' as const } },
+      EXO: { 1: { completedAt: '2026-01-03T00:00:00.000Z', via: 'read' as const } },
+    };
+    const { merged, added } = mergeProgress(local, incoming);
+    expect(added).toBe(2);
+    expect(Object.keys(merged.GEN)).toEqual(['1', '2']);
+    expect(merged.EXO[1].via).toBe('read');
+  });
+
+  it('keeps the earliest completion when both sides have a chapter', () => {
+    const early = { completedAt: '2026-01-01T00:00:00.000Z', via: 'read' as const };
+    const late = { completedAt: '2026-02-01T00:00:00.000Z', via: 'listen' as const };
+    expect(mergeProgress({ GEN: { 1: late } }, { GEN: { 1: early } })).toEqual({ merged: { GEN: { 1: early } }, added: 0 });
+    expect(mergeProgress({ GEN: { 1: early } }, { GEN: { 1: late } }).merged.GEN[1]).toBe(early);
+  });
+
+  it('prefers a timestamp over a completion without one', () => {
+    const undated = { completedAt: null, via: 'read' as const };
+    const dated = { completedAt: '2026-01-01T00:00:00.000Z', via: 'listen' as const };
+    expect(mergeProgress({ GEN: { 1: undated } }, { GEN: { 1: dated } }).merged.GEN[1]).toBe(dated);
+  });
+
+  it('does not modify the local progress', () => {
+    const local = { GEN: {} };
+    mergeProgress(local, { GEN: { 1: { completedAt: null, via: 'read' } } });
+    expect(local).toEqual({ GEN: {} });
+  });
+});
+
+describe('mergeListening', () => {
+  it('takes the larger value per day, so importing twice does not double-count', () => {
+    const local = { totalSeconds: 100, byDate: { '2026-01-01': 60, '2026-01-02': 40 } };
+    const incoming = { totalSeconds: 90, byDate: { '2026-01-02': 70, '2026-01-03': 20 } };
+    const merged = mergeListening(local, incoming);
+    expect(merged.byDate).toEqual({ '2026-01-01': 60, '2026-01-02': 70, '2026-01-03': 20 });
+    expect(merged.totalSeconds).toBe(150);
+    expect(mergeListening(merged, incoming)).toEqual(merged);
+  });
+
+  it('keeps a total larger than the daily sum', () => {
+    expect(mergeListening({ totalSeconds: 500, byDate: {} }, { totalSeconds: 0, byDate: { '2026-01-01': 10 } }).totalSeconds).toBe(500);
+  });
+});
+
+describe('parseBackup', () => {
+  it('accepts a backup of this or an older version', () => {
+    const json = JSON.stringify({ app: BACKUP_APP_ID, version: 1, progress: {} });
+    expect(parseBackup(json).version).toBe(1);
+  });
+
+  it('rejects invalid JSON, other files and newer versions', () => {
+    expect(() => parseBackup('{')).toThrow(BackupError);
+    expect(() => parseBackup('null')).toThrow('這不是恩典聖經的備份檔');
+    expect(() => parseBackup(JSON.stringify({ app: 'other', version: 1 }))).toThrow(BackupError);
+    expect(() => parseBackup(JSON.stringify({ app: BACKUP_APP_ID, version: BACKUP_VERSION + 1 }))).toThrow('備份檔版本較新');
+  });
+});
@@ -0,0 +1,192 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { ChapterCompletion, ListeningStats, MemoryVerse, ReadingProgress, VerseAnnotation } from './types';
+import { loadListeningStats, loadProgress, migrateProgress } from './progress';
+import { AppSettings, getSettingsUpdatedAt, loadSettings, parseSettings, saveSettings, serializeSettings } from './settings';
+import { toDateKey } from './readingPlans';
+import { downloadBlob } from './fileDownload';
+import { getAllAnnotations, isValidAnnotation, mergeAnnotations } from './annotations';
+import { getMemoryVerses, isValidMemoryVerse, mergeMemoryVerses } from './memoryVerses';
+import { isRecord } from './validation';
+
+export const BACKUP_APP_ID = 'grace-bible';
+export const BACKUP_VERSION = 3; // 2: adds verse annotations, 3: adds memory verses
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exportedAt: string;
+  progress: ReadingProgress;
+  listening: ListeningStats;
+  annotations?: VerseAnnotation[]; // Missing in version 1 files
+  memoryVerses?: MemoryVerse[]; // Missing before version 3
+  settings: {
+    values: Partial<Record<keyof AppSettings, string | null>>;
+    updatedAt: string | null;
+  };
+}
+
+export interface ImportResult {
+  progress: ReadingProgress;
+  listening: ListeningStats;
+  settingsApplied: boolean; // False when the device's settings were newer and kept
+  addedChapters: number;
+  updatedAnnotations: number;
+  updatedMemoryVerses: number;
+  skippedEntries: number; // Unknown books, out-of-range chapters and malformed records
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const createBackup = async (): Promise<BackupFile> => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  progress: loadProgress(),
+  listening: loadListeningStats(),
+  annotations: await getAllAnnotations(),
+  memoryVerses: await getMemoryVerses(),
+  settings: {
+    values: serializeSettings(loadSettings()),
+    updatedAt: getSettingsUpdatedAt(),
+  },
+});
+
+export const exportBackup = async () => {
+  const json = JSON.stringify(await createBackup(), null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), `grace-bible-backup-${toDateKey(new Date())}.json`);
+};
+
+// --- Validation ---
+
+const isCompletion = (value: unknown): value is ChapterCompletion =>
+  isRecord(value) && (value.via === 'read' || value.via === 'listen')
+  && (value.completedAt === null || (typeof value.completedAt === 'string' && !isNaN(Date.parse(value.completedAt))));
+
+/** Keeps only entries whose book id exists in `BIBLE_BOOKS` and whose chapter is in range. */
+const validateProgress = (raw: unknown) => {
+  const progress: ReadingProgress = {};
+  let skipped = 0;
+  if (!isRecord(raw)) return { progress, skipped };
+
+  for (const [bookId, chapters] of Object.entries(raw)) {
+    const book = BIBLE_BOOKS.find(b => b.id === bookId);
+    if (!book || !isRecord(chapters)) {
+      skipped++;
+      continue;
+    }
+    for (const [key, completion] of Object.entries(chapters)) {
+      const chapter = Number(key);
+      if (!Number.isInteger(chapter) || chapter < 1 || chapter > book.chapters || !isCompletion(completion)) {
+        skipped++;
+        continue;
+      }
+      (progress[bookId] ||= {})[chapter] = { completedAt: completion.completedAt, via: completion.via };
+    }
+  }
+  return { progress, skipped };
+};
+
+const validateListening = (raw: unknown): ListeningStats => {
+  const byDate: ListeningStats['byDate'] = {};
+  if (!isRecord(raw)) return { totalSeconds: 0, byDate };
+  for (const [day, seconds] of Object.entries(isRecord(raw.byDate) ? raw.byDate : {})) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(day) && typeof seconds === 'number' && seconds >= 0) byDate[day] = seconds;
+  }
+  const totalSeconds = typeof raw.totalSeconds === 'number' && raw.totalSeconds >= 0 ? raw.totalSeconds : 0;
+  return { totalSeconds, byDate };
+};
+
+export const parseBackup = (json: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BackupError('檔案不是有效的 JSON');
+  }
+  if (!isRecord(data) || data.app !== BACKUP_APP_ID) throw new BackupError('這不是恩典聖經的備份檔');
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new BackupError('備份檔版本較新，請先更新應用程式');
+  }
+  // Only the header is checked here; importBackup validates each section
+  return data as unknown as BackupFile;
+};
+
+// --- Merging ---
+
+const earlierCompletion = (a: ChapterCompletion, b: ChapterCompletion) => {
+  if (!a.completedAt) return b;
+  if (!b.completedAt) return a;
+  return a.completedAt <= b.completedAt ? a : b;
+};
+
+/** Union of completed chapters; when both sides have a chapter the earliest timestamp wins. */
+export const mergeProgress = (local: ReadingProgress, incoming: ReadingProgress) => {
+  const merged: ReadingProgress = { ...local };
+  let added = 0;
+  for (const [bookId, chapters] of Object.entries(incoming)) {
+    const target = { ...(merged[bookId] || {}) };
+    for (const [chapter, completion] of Object.entries(chapters)) {
+      const existing = target[Number(chapter)];
+      if (!existing) added++;
+      target[Number(chapter)] = existing ? earlierCompletion(existing, completion) : completion;
+    }
+    merged[bookId] = target;
+  }
+  return { merged, added };
+};
+
+/**
+ * Listening time is merged per day with the larger value, so importing the same
+ * backup twice does not double-count.
+ */
+export const mergeListening = (local: ListeningStats, incoming: ListeningStats): ListeningStats => {
+  const byDate = { ...local.byDate };
+  for (const [day, seconds] of Object.entries(incoming.byDate)) {
+    byDate[day] = Math.max(byDate[day] || 0, seconds);
+  }
+  const summed = Object.values(byDate).reduce((sum, s) => sum + s, 0);
+  return { byDate, totalSeconds: Math.max(local.totalSeconds, incoming.totalSeconds, summed) };
+};
+
+/**
+ * Validates and merges a backup into the current device. Settings follow
+ * newest-wins: they are applied only if the backup's settings were changed
+ * more recently than this device's.
+ */
+export const importBackup = async (file: File): Promise<ImportResult> => {
+  const backup = parseBackup(await file.text());
+  const { progress: incoming, skipped } = validateProgress(migrateProgress(backup.progress));
+  const { merged, added } = mergeProgress(loadProgress(), incoming);
+  const listening = mergeListening(loadListeningStats(), validateListening(backup.listening));
+  const annotations = Array.isArray(backup.annotations) ? backup.annotations : [];
+  const validAnnotations = annotations.filter(isValidAnnotation);
+  const updatedAnnotations = await mergeAnnotations(validAnnotations);
+  const memoryVerses = Array.isArray(backup.memoryVerses) ? backup.memoryVerses : [];
+  const validMemoryVerses = memoryVerses.filter(isValidMemoryVerse);
+  const updatedMemoryVerses = await mergeMemoryVerses(validMemoryVerses);
+
+  const localUpdatedAt = getSettingsUpdatedAt();
+  const incomingUpdatedAt = backup.settings?.updatedAt ?? null;
+  const settingsApplied = !!incomingUpdatedAt && (!localUpdatedAt || incomingUpdatedAt > localUpdatedAt);
+  if (settingsApplied) {
+    // Keys missing from older backups keep this device's values
+    const values = { ...serializeSettings(loadSettings()), ...(backup.settings.values || {}) };
+    saveSettings(parseSettings(values), incomingUpdatedAt);
+  }
+
+  return {
+    progress: merged,
+    listening,
+    settingsApplied,
+    addedChapters: added,
+    updatedAnnotations,
+    updatedMemoryVerses,
+    skippedEntries: skipped + annotations.length - validAnnotations.length + memoryVerses.length - validMemoryVerses.length,
+  };
+};
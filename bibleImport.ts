@@ -0,0 +1,165 @@
+
+import { BIBLE_BOOKS, BOOK_ID_ALIASES } from './constants';
+import { ImportedChapter, SectionHeading, Verse } from './types';
+import { isRecord } from './validation';
+
+const BOOK_IDS = new Set(BIBLE_BOOKS.map(b => b.id));
+
+/** Maps a book code from an imported file onto a `BIBLE_BOOKS` id, or null if unknown. */
+export const normalizeBookId = (code: string): string | null => {
+  const upper = code.trim().toUpperCase();
+  const id = BOOK_ID_ALIASES[upper] || upper;
+  return BOOK_IDS.has(id) ? id : null;
+};
+
+const chapterKey = (bookId: string, chapter: number) => `${bookId}:${chapter}`;
+
+class ChapterCollector {
+  readonly chapters = new Map<string, ImportedChapter>();
+
+  get(bookId: string, chapter: number) {
+    const key = chapterKey(bookId, chapter);
+    let entry = this.chapters.get(key);
+    if (!entry) {
+      entry = { bookId, chapter, verses: [], headings: [] };
+      this.chapters.set(key, entry);
+    }
+    return entry;
+  }
+
+  addVerse(bookId: string, chapter: number, number: number, text: string) {
+    if (!Number.isFinite(chapter) || !Number.isFinite(number) || !text) return;
+    this.get(bookId, chapter).verses.push({ number, text: String(text).trim() });
+  }
+
+  result() {
+    return [...this.chapters.values()].filter(c => c.verses.length > 0);
+  }
+}
+
+// --- USFM ---
+
+const USFM_HEADING_MARKERS = /^(s\d?|ms\d?|mr|sr|r|sp|qa)$/;
+const USFM_TEXT_MARKERS = /^(p|m|mi|pi\d?|q\d?|qr|qc|qm\d?|nb|li\d?|pc|pm|pmo|pmc|pmr|b|d|add|nd|wj|w|qs|bk|tl|sc|it|bd|em|k|pn|qt|sig|sls|ord)$/;
+
+/**
+ * Parses one or more USFM books. Footnotes, cross references and word-level
+ * attributes are discarded; poetry and paragraph markers are folded into the
+ * current verse.
+ */
+export const parseUsfm = (source: string): ImportedChapter[] => {
+  const collector = new ChapterCollector();
+  const cleaned = source
+    .replace(/\\(f|fe|x|ef|ex)\s[\s\S]*?\\\1\*/g, '')
+    .replace(/\|[^\\]*?(?=\\\+?w\*)/g, '')
+    .replace(/\\\+?[a-z]+\d*\*/g, '');
+
+  let bookId: string | null = null;
+  let chapter = 0;
+  let currentVerse: Verse | null = null;
+  let pendingHeading: string | null = null;
+
+  for (const token of cleaned.split(/(?=\\\+?[a-z]+\d*[\s*])/)) {
+    const match = token.match(/^\\\+?([a-z]+\d*)\s*([\s\S]*)$/);
+    if (!match) continue;
+    const [, marker, rest] = match;
+    const content = rest.replace(/\s+/g, ' ').trim();
+
+    if (marker === 'id') {
+      bookId = normalizeBookId(content.slice(0, 3));
+      chapter = 0;
+      currentVerse = null;
+    } else if (!bookId) {
+      continue;
+    } else if (marker === 'c') {
+      chapter = parseInt(content, 10);
+      currentVerse = null;
+    } else if (USFM_HEADING_MARKERS.test(marker)) {
+      if (content && marker !== 'r') pendingHeading = content;
+    } else if (marker === 'v') {
+      const verseMatch = content.match(/^(\d+)(?:-\d+)?\s*([\s\S]*)$/);
+      if (!verseMatch || !chapter) continue;
+      const number = parseInt(verseMatch[1], 10);
+      const entry = collector.get(bookId, chapter);
+      currentVerse = { number, text: verseMatch[2] };
+      entry.verses.push(currentVerse);
+      if (pendingHeading) {
+        entry.headings.push({ beforeVerse: number, title: pendingHeading });
+        pendingHeading = null;
+      }
+    } else if (USFM_TEXT_MARKERS.test(marker) && currentVerse && content) {
+      currentVerse.text = `${currentVerse.text} ${content}`.trim();
+    }
+  }
+
+  return collector.result();
+};
+
+// --- JSON ---
+
+const isSectionHeading = (value: unknown): value is SectionHeading =>
+  isRecord(value) && typeof value.beforeVerse === 'number' && typeof value.title === 'string';
+
+const collectJsonChapter = (collector: ChapterCollector, bookId: string, chapter: number, value: unknown) => {
+  if (Array.isArray(value)) {
+    value.forEach((text, i) => {
+      if (typeof text === 'string') collector.addVerse(bookId, chapter, i + 1, text);
+    });
+  } else if (isRecord(value) && Array.isArray(value.verses)) {
+    for (const verse of value.verses) {
+      if (isRecord(verse) && typeof verse.text === 'string') collector.addVerse(bookId, chapter, Number(verse.number), verse.text);
+    }
+    const headings = Array.isArray(value.headings) ? value.headings.filter(isSectionHeading) : [];
+    collector.get(bookId, chapter).headings.push(...headings);
+  } else if (isRecord(value)) {
+    for (const [verse, text] of Object.entries(value)) {
+      if (typeof text === 'string') collector.addVerse(bookId, chapter, parseInt(verse, 10), text);
+    }
+  }
+};
+
+/**
+ * Accepts the common JSON Bible layouts:
+ * - `{ books: { GEN: { "1": { verses, headings } } } }` (this app's export format)
+ * - `{ GEN: { "1": { "1": "起初…" } } }` or `{ GEN: [["起初…", …], …] }`
+ * - `[{ book: "GEN", chapter: 1, verse: 1, text: "起初…" }, …]`
+ */
+export const parseBibleJson = (source: string): ImportedChapter[] => {
+  const collector = new ChapterCollector();
+  const data: unknown = JSON.parse(source);
+
+  if (Array.isArray(data)) {
+    for (const row of data) {
+      if (!isRecord(row) || typeof row.text !== 'string') continue;
+      const bookId = normalizeBookId(String(row.book ?? row.bookId ?? ''));
+      if (bookId) collector.addVerse(bookId, Number(row.chapter), Number(row.verse), row.text);
+    }
+    return collector.result();
+  }
+
+  const books = isRecord(data) && isRecord(data.books) ? data.books : data;
+  if (!isRecord(books)) return collector.result();
+  for (const [code, chapters] of Object.entries(books)) {
+    const bookId = normalizeBookId(code);
+    if (!bookId) continue;
+    const entries: [string, unknown][] = Array.isArray(chapters)
+      ? chapters.map((c, i) => [String(i + 1), c])
+      : isRecord(chapters) ? Object.entries(chapters) : [];
+    for (const [chapter, value] of entries) {
+      collectJsonChapter(collector, bookId, parseInt(chapter, 10), value);
+    }
+  }
+  return collector.result();
+};
+
+/** Detects the file format from its name and content and parses it. */
+export const parseBibleFile = (fileName: string, source: string): ImportedChapter[] => {
+  const trimmed = source.trimStart();
+  if (/\.json$/i.test(fileName) || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseBibleJson(source);
+  }
+  if (/\.(usfm|sfm)$/i.test(fileName) || trimmed.startsWith('\\id')) {
+    return parseUsfm(source);
+  }
+  throw new Error('UNSUPPORTED_BIBLE_FORMAT');
+};
@@ -0,0 +1,49 @@
+
+import { DEFAULT_TRANSLATION } from './constants';
+import { SearchFilter, SearchResponse } from './types';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './searchWorker';
+
+// 全文搜尋在 Web Worker 中建立索引與比對，避免在手機上卡住畫面
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (response: SearchResponse) => void; reject: (error: Error) => void }>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === 'results') request.resolve(message.response);
+    else request.reject(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    // A crashed worker is recreated on the next search
+    for (const request of pending.values()) request.reject(new Error(event.message || 'SEARCH_WORKER_FAILED'));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const post = (message: SearchWorkerRequest) => getWorker().postMessage(message);
+
+/** Searches all locally stored chapter text of a translation. */
+export const searchBible = (
+  query: string,
+  filter: SearchFilter = {},
+  translation: string = DEFAULT_TRANSLATION
+): Promise<SearchResponse> =>
+  new Promise((resolve, reject) => {
+    const id = ++nextRequestId;
+    pending.set(id, { resolve, reject });
+    post({ type: 'search', id, query, translation, filter });
+  });
+
+/** Drops built indexes, e.g. after imported text replaced existing chapters. */
+export const invalidateSearchIndex = () => {
+  if (worker) post({ type: 'invalidate' });
+};
@@ -1,5 +1,5 @@
 
-import { BibleBook } from './types';
+import { BibleBook, Translation } from './types';
 
 export const BIBLE_BOOKS: BibleBook[] = [
   // 舊約 (39卷)
@@ -72,3 +72,114 @@ export const BIBLE_BOOKS: BibleBook[] = [
   { id: 'JUD', name: '猶大書', chapters: 1, testament: 'New' },
   { id: 'REV', name: '啟示錄', chapters: 22, testament: 'New' },
 ];
+
+// 英文譯本使用的書卷名稱
+export const BOOK_NAMES_EN: Record<string, string> = {
+  GEN: 'Genesis',
+  EXO: 'Exodus',
+  LEV: 'Leviticus',
+  NUM: 'Numbers',
+  DEU: 'Deuteronomy',
+  JOS: 'Joshua',
+  JDG: 'Judges',
+  RUT: 'Ruth',
+  '1SA': '1 Samuel',
+  '2SA': '2 Samuel',
+  '1KI': '1 Kings',
+  '2KI': '2 Kings',
+  '1CH': '1 Chronicles',
+  '2CH': '2 Chronicles',
+  EZR: 'Ezra',
+  NEH: 'Nehemiah',
+  EST: 'Esther',
+  JOB: 'Job',
+  PSA: 'Psalms',
+  PRO: 'Proverbs',
+  ECC: 'Ecclesiastes',
+  SNG: 'Song of Songs',
+  ISA: 'Isaiah',
+  JER: 'Jeremiah',
+  LAM: 'Lamentations',
+  EZK: 'Ezekiel',
+  DAN: 'Daniel',
+  HOS: 'Hosea',
+  JOL: 'Joel',
+  AMO: 'Amos',
+  OBD: 'Obadiah',
+  JON: 'Jonah',
+  MIC: 'Micah',
+  NAH: 'Nahum',
+  HAB: 'Habakkuk',
+  ZEP: 'Zephaniah',
+  HAG: 'Haggai',
+  ZEC: 'Zechariah',
+  MAL: 'Malachi',
+  MAT: 'Matthew',
+  MRK: 'Mark',
+  LUK: 'Luke',
+  JHN: 'John',
+  ACT: 'Acts',
+  ROM: 'Romans',
+  '1CO': '1 Corinthians',
+  '2CO': '2 Corinthians',
+  GAL: 'Galatians',
+  EPH: 'Ephesians',
+  PHP: 'Philippians',
+  COL: 'Colossians',
+  '1TH': '1 Thessalonians',
+  '2TH': '2 Thessalonians',
+  '1TI': '1 Timothy',
+  '2TI': '2 Timothy',
+  TIT: 'Titus',
+  PHM: 'Philemon',
+  HEB: 'Hebrews',
+  JAS: 'James',
+  '1PE': '1 Peter',
+  '2PE': '2 Peter',
+  '1JO': '1 John',
+  '2JO': '2 John',
+  '3JO': '3 John',
+  JUD: 'Jude',
+  REV: 'Revelation',
+};
+
+export const TRANSLATIONS: Translation[] = [
+  { id: 'cuv', name: '和合本', shortName: '和合本', language: 'zh', promptName: '中文和合本' },
+  { id: 'cnv', name: '新譯本', shortName: '新譯本', language: 'zh', promptName: '中文新譯本' },
+  { id: 'kjv', name: 'King James Version', shortName: 'KJV', language: 'en', promptName: 'King James Version (KJV)' },
+  { id: 'web', name: 'World English Bible', shortName: 'WEB', language: 'en', promptName: 'World English Bible (WEB)' },
+];
+
+export const DEFAULT_TRANSLATION = 'cuv'; // 中文和合本
+export const DEFAULT_VOICE = 'Kore';
+
+// Gemini TTS 內建聲音（僅列出適合朗讀經文者）
+export const TTS_VOICES: { id: string; label: string }[] = [
+  { id: 'Kore', label: 'Kore・沉穩' },
+  { id: 'Charon', label: 'Charon・知性' },
+  { id: 'Schedar', label: 'Schedar・平穩' },
+  { id: 'Sulafat', label: 'Sulafat・溫暖' },
+  { id: 'Achernar', label: 'Achernar・柔和' },
+  { id: 'Gacrux', label: 'Gacrux・成熟' },
+  { id: 'Orus', label: 'Orus・堅定' },
+  { id: 'Aoede', label: 'Aoede・輕快' },
+  { id: 'Leda', label: 'Leda・年輕' },
+  { id: 'Puck', label: 'Puck・活潑' },
+];
+
+// 匯入檔案中常見、但與本應用代碼不同的三字母書卷代碼
+export const BOOK_ID_ALIASES: Record<string, string> = {
+  '1JN': '1JO',
+  '2JN': '2JO',
+  '3JN': '3JO',
+  'EZE': 'EZK',
+  'JOE': 'JOL',
+  'NAM': 'NAH',
+  'OBA': 'OBD',
+  'PHI': 'PHP',
+  'SOL': 'SNG',
+  'SOS': 'SNG',
+  'JAM': 'JAS',
+  'MAR': 'MRK',
+  'JOH': 'JHN',
+};
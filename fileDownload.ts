@@ -0,0 +1,13 @@
+
+/** Saves a Blob as a file through a temporary object URL. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke later so that the download has time to start
+  window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,124 @@
+
+import { ApiError, FinishReason, GenerateContentResponse } from "@google/genai";
+
+export type GeminiErrorKind =
+  | 'missing-key'
+  | 'invalid-key'
+  | 'quota' // Quota exhausted or rate limited
+  | 'network' // Offline or the request never reached the API
+  | 'safety' // Blocked by safety or recitation filters
+  | 'empty' // Empty or truncated output
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+// 顯示給使用者的錯誤說明
+export const GEMINI_ERROR_MESSAGES: Record<GeminiErrorKind, string> = {
+  'missing-key': '尚未設定 Gemini API_KEY，無法產生經文或語音。',
+  'invalid-key': 'Gemini API_KEY 無效或沒有權限，請確認金鑰設定。',
+  quota: 'Gemini 使用量已達上限或請求太頻繁，請稍候再試。',
+  network: '無法連線，請確認網路後再試。',
+  safety: '內容被 Gemini 的安全機制攔阻，無法產生。',
+  empty: 'Gemini 回傳的內容是空的或不完整。',
+  server: 'Gemini 服務暫時無法使用，請稍後再試。',
+  cancelled: '已取消。',
+  unknown: '發生未預期的錯誤，請稍後再試。',
+};
+
+export class GeminiError extends Error {
+  readonly kind: GeminiErrorKind;
+  readonly retryAfterMs?: number; // Delay requested by the API for rate limits
+
+  constructor(kind: GeminiErrorKind, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(GEMINI_ERROR_MESSAGES[kind], { cause: options.cause });
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY, FinishReason.RECITATION, FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+]);
+
+/** Throws when a response was blocked or cut off, since the SDK reports those as successful responses. */
+export const checkResponse = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason) throw new GeminiError('safety');
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.has(finishReason)) throw new GeminiError('safety');
+  if (finishReason === FinishReason.MAX_TOKENS) throw new GeminiError('empty');
+};
+
+// 例如 "retryDelay": "23s" 或 "Please retry in 23.5s"
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+/** Maps SDK, fetch and abort errors to a typed `GeminiError`. */
+export const toGeminiError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  const err = error as { name?: string; message?: string } | null;
+  const message = err?.message ?? '';
+  if (err?.name === 'AbortError') return new GeminiError('cancelled', { cause: error });
+  if (error instanceof ApiError) {
+    const { status } = error;
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+      return new GeminiError('invalid-key', { cause: error });
+    }
+    if (status === 429) return new GeminiError('quota', { cause: error, retryAfterMs: parseRetryDelay(message) });
+    if (status >= 500) return new GeminiError('server', { cause: error });
+    return new GeminiError('unknown', { cause: error });
+  }
+  // fetch() rejects with a TypeError when the request cannot be sent
+  if (!navigator.onLine || error instanceof TypeError) return new GeminiError('network', { cause: error });
+  return new GeminiError('unknown', { cause: error });
+};
+
+export const errorMessage = (error: unknown) => toGeminiError(error).message;
+
+// --- Retry ---
+
+const MAX_RETRY_DELAY_MS = 20000; // Longer rate-limit waits are left to the user's retry button
+
+const isRetryable = (error: GeminiError) => {
+  switch (error.kind) {
+    case 'quota': return (error.retryAfterMs ?? 0) <= MAX_RETRY_DELAY_MS;
+    case 'network': return navigator.onLine;
+    case 'server':
+    case 'empty': return true;
+    default: return false;
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new GeminiError('cancelled'));
+  const timer = window.setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    window.clearTimeout(timer);
+    reject(new GeminiError('cancelled'));
+  }, { once: true });
+});
+
+/**
+ * Runs a Gemini request, retrying transient failures with exponential backoff
+ * and jitter. Always rejects with a `GeminiError`.
+ */
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  { signal, retries = 2, baseDelayMs = 1000 }: { signal?: AbortSignal; retries?: number; baseDelayMs?: number } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if (signal?.aborted) throw new GeminiError('cancelled');
+      return await run();
+    } catch (error) {
+      const geminiError = signal?.aborted ? new GeminiError('cancelled', { cause: error }) : toGeminiError(error);
+      if (attempt >= retries || !isRetryable(geminiError)) throw geminiError;
+      const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.5);
+      console.warn(`Gemini request failed (${geminiError.kind}), retrying:`, error);
+      await wait(Math.max(backoff, geminiError.retryAfterMs ?? 0), signal);
+    }
+  }
+};
@@ -1,59 +1,278 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { BibleBook, ChapterContent, PassageStudy, SpeechAudio, SpeechChunk, SpeechOptions, StudyPassage } from "./types";
+import { normalizeChapter, parseChapterText } from "./scripture";
+import { DEFAULT_TRANSLATION } from "./constants";
+import { getTranslation, localizedBookName } from "./translations";
+import { speechInstruction } from "./narration";
+import { audioChunkCacheKey, cacheAudio, cacheStudy, getCachedAudio, getCachedStudy, studyCacheKey } from "./offlineCache";
+import { formatVerseList } from "./referenceParser";
+import { checkResponse, GeminiError, withRetry } from "./geminiErrors";
 
 const getAiClient = () => {
   const apiKey = process.env.API_KEY;
   if (!apiKey || apiKey === "" || apiKey === "undefined") {
     console.error("Critical: API_KEY is missing.");
-    throw new Error("API_KEY_MISSING");
+    throw new GeminiError('missing-key');
   }
   return new GoogleGenAI({ apiKey });
 };
 
-export const fetchChapterText = async (book: string, chapter: number): Promise<string> => {
+const CHAPTER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    headings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          beforeVerse: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+        },
+        required: ['beforeVerse', 'title'],
+      },
+    },
+    verses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          number: { type: Type.INTEGER },
+          text: { type: Type.STRING },
+        },
+        required: ['number', 'text'],
+      },
+    },
+  },
+  required: ['verses'],
+};
+
+const chapterPrompt = (book: BibleBook, chapter: number, translation: string) => {
+  const { language, promptName } = getTranslation(translation);
+  const name = localizedBookName(book.id, translation);
+  return language === 'en'
+    ? `Provide the full text of ${name} chapter ${chapter} from the ${promptName}. Output every verse with its number and text; if there are section headings, state which verse each one precedes. No introduction or commentary.`
+    : `請提供聖經 ${name} 第 ${chapter} 章的全文內容（${promptName}）。逐節輸出，每節包含節數與經文；若有段落標題，標明其出現在哪一節之前。不要導言或註解。`;
+};
+
+const parseChapterResponse = (book: BibleBook, chapter: number, raw: string) => {
+  try {
+    const parsed = JSON.parse(raw);
+    return normalizeChapter(book, chapter, parsed.verses || [], parsed.headings || []);
+  } catch {
+    // The model occasionally ignores the schema; fall back to line parsing.
+    return parseChapterText(book, chapter, raw);
+  }
+};
+
+/** Generates a chapter's text. Rejects with a `GeminiError`; transient failures are retried. */
+export const fetchChapterTextFromGemini = async (
+  book: BibleBook,
+  chapter: number,
+  translation: string = DEFAULT_TRANSLATION,
+  signal?: AbortSignal
+): Promise<ChapterContent> => {
   try {
     const ai = getAiClient();
-    const prompt = `請提供聖經 ${book} 第 ${chapter} 章的全文內容（中文和合本）。僅輸出經文，不要導言或註解。`;
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        temperature: 0.1,
-      }
-    });
+    const prompt = chapterPrompt(book, chapter, translation);
 
-    return response.text || "無法獲取經文。";
-  } catch (error: any) {
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: prompt,
+        config: {
+          temperature: 0.1,
+          responseMimeType: 'application/json',
+          responseSchema: CHAPTER_SCHEMA,
+          abortSignal: signal,
+        }
+      });
+      checkResponse(response);
+      const content = parseChapterResponse(book, chapter, response.text || '');
+      if (content.verses.length === 0) throw new GeminiError('empty');
+      return content;
+    }, { signal });
+  } catch (error) {
     console.error("Fetch text error:", error);
-    return "讀取失敗，請確認 API Key 是否有效。";
+    throw error;
   }
 };
 
-export const generateSpeech = async (text: string) => {
+// --- Study companion ---
+
+const STUDY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    context: { type: Type.STRING },
+    crossReferences: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          reference: { type: Type.STRING },
+          note: { type: Type.STRING },
+        },
+        required: ['reference', 'note'],
+      },
+    },
+    questions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['summary', 'context', 'crossReferences', 'questions'],
+};
+
+const studyPrompt = (passage: StudyPassage, content: ChapterContent, translation: string) => {
+  const { language } = getTranslation(translation);
+  const name = localizedBookName(passage.bookId, translation);
+  const verses = passage.verses.length > 0
+    ? content.verses.filter(v => passage.verses.includes(v.number))
+    : content.verses;
+  const text = verses.map(v => `${v.number} ${v.text}`).join('\n');
+  const label = passage.verses.length > 0 ? `${name} ${passage.chapter}:${formatVerseList(passage.verses)}` : `${name} ${passage.chapter}`;
+  // 相關經文要求固定格式，才能解析成可點選的連結
+  return language === 'en'
+    ? `You are helping a small-group Bible study on ${label}:\n\n${text}\n\nWrite a short summary (2-3 sentences), the historical and literary context (one paragraph), 3-5 key cross-references written as "Book chapter:verse" with English book names (e.g. "Romans 5:8") each with a one-sentence note, and 3-4 open discussion questions for small groups. Stay faithful to the text and avoid denominational controversy.`
+    : `你正在協助小組查經，經文是${label}：\n\n${text}\n\n請用繁體中文撰寫：簡短摘要（2-3 句）、歷史與文學背景（一段）、3-5 處重要的相關經文（格式為「書卷全名 章:節」，例如「羅馬書 5:8」，各附一句說明），以及 3-4 個適合小組討論的開放式問題。忠於經文，避免宗派爭議。`;
+};
+
+/**
+ * AI study notes for a passage, cached per passage and translation; `refresh`
+ * skips the cache. Rejects with a `GeminiError`.
+ */
+export const generatePassageStudy = async (
+  passage: StudyPassage,
+  content: ChapterContent,
+  translation: string,
+  { refresh = false, signal }: { refresh?: boolean; signal?: AbortSignal } = {}
+): Promise<PassageStudy> => {
+  const cacheKey = studyCacheKey(translation, passage);
+  if (!refresh) {
+    const cached = await getCachedStudy(cacheKey);
+    if (cached) return cached;
+  }
   try {
     const ai = getAiClient();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `請用穩定且莊重的語氣朗讀這段聖經經文：${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
+    const study = await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: studyPrompt(passage, content, translation),
+        config: {
+          temperature: 0.4,
+          responseMimeType: 'application/json',
+          responseSchema: STUDY_SCHEMA,
+          abortSignal: signal,
         },
-      },
-    });
+      });
+      checkResponse(response);
+      let parsed: Partial<PassageStudy>;
+      try {
+        parsed = JSON.parse(response.text || '{}');
+      } catch {
+        throw new GeminiError('empty');
+      }
+      if (!parsed.summary) throw new GeminiError('empty');
+      return {
+        summary: parsed.summary,
+        context: parsed.context ?? '',
+        crossReferences: (parsed.crossReferences ?? []).filter(r => r.reference),
+        questions: (parsed.questions ?? []).filter(Boolean),
+        generatedAt: new Date().toISOString(),
+      } as PassageStudy;
+    }, { signal });
+    await cacheStudy(cacheKey, study);
+    return study;
+  } catch (error) {
+    console.error("Study notes error:", error);
+    throw error;
+  }
+};
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("AUDIO_DATA_EMPTY");
-    return base64Audio;
+/** Synthesizes narration. Rejects with a `GeminiError`; transient failures are retried. */
+export const generateSpeech = async (
+  text: string,
+  speech: SpeechOptions,
+  cacheKey?: string,
+  signal?: AbortSignal
+): Promise<SpeechAudio> => {
+  if (cacheKey) {
+    const cached = await getCachedAudio(cacheKey);
+    if (cached) return cached;
+  }
+  try {
+    const ai = getAiClient();
+    const audio = await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash-preview-tts",
+        contents: [{ parts: [{ text: `${speechInstruction(speech)}${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: speech.voice },
+            },
+          },
+          abortSignal: signal,
+        },
+      });
+      checkResponse(response);
+      const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+      if (!inlineData?.data) throw new GeminiError('empty');
+      return { data: inlineData.data, ...parsePcmFormat(inlineData.mimeType) } as SpeechAudio;
+    }, { signal });
+    if (cacheKey) await cacheAudio(cacheKey, audio);
+    return audio;
   } catch (error) {
     console.error("TTS error:", error);
     throw error;
   }
 };
 
+/**
+ * Synthesizes chunks with up to `concurrency` requests in flight and hands the
+ * audio to `onChunk` strictly in order, so playback can start after the first
+ * chunk. Stops early once `isCancelled` returns true.
+ */
+export const streamSpeechChunks = async (
+  chunks: SpeechChunk[],
+  options: {
+    speech: SpeechOptions;
+    chapterCacheKey?: string;
+    concurrency?: number;
+    signal?: AbortSignal; // Aborts requests in flight
+    isCancelled?: () => boolean;
+    onChunk: (chunk: SpeechChunk, audio: SpeechAudio) => Promise<void> | void;
+  }
+) => {
+  const { speech, chapterCacheKey, concurrency = 2, signal, onChunk } = options;
+  const isCancelled = () => !!signal?.aborted || !!options.isCancelled?.();
+  const requests = new Map<number, Promise<SpeechAudio>>();
+  const request = (index: number) => {
+    if (index >= chunks.length || requests.has(index)) return;
+    const chunk = chunks[index];
+    const pending = generateSpeech(chunk.text, speech, chapterCacheKey && audioChunkCacheKey(chapterCacheKey, chunk), signal);
+    pending.catch(() => {}); // Surfaced when awaited in order below
+    requests.set(index, pending);
+  };
+
+  for (let i = 0; i < concurrency; i++) request(i);
+  for (let i = 0; i < chunks.length; i++) {
+    const audio = await requests.get(i)!;
+    if (isCancelled()) return;
+    request(i + concurrency);
+    await onChunk(chunks[i], audio);
+  }
+};
+
+// Gemini TTS 回傳 16-bit PCM，MIME 類型如 audio/L16;codec=pcm;rate=24000
+const DEFAULT_PCM_FORMAT = { sampleRate: 24000, channels: 1 };
+
+export const parsePcmFormat = (mimeType?: string) => {
+  const param = (name: string) => Number(mimeType?.match(new RegExp(`${name}=(\\d+)`, 'i'))?.[1]);
+  return {
+    sampleRate: param('rate') || DEFAULT_PCM_FORMAT.sampleRate,
+    channels: param('channels') || DEFAULT_PCM_FORMAT.channels,
+  };
+};
+
 export function decodeBase64(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
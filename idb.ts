@@ -0,0 +1,115 @@
+
+// 簡易 IndexedDB 封裝：所有本地資料共用同一個資料庫
+const DB_NAME = 'grace-bible';
+const DB_VERSION = 5; // Bump whenever a store is added to STORES; stores are only created on upgrade
+
+export const STORES = {
+  bibles: 'bibles',
+  bibleChapters: 'bibleChapters',
+  chapterCache: 'chapterCache',
+  audioCache: 'audioCache',
+  cacheMeta: 'cacheMeta',
+  annotations: 'annotations',
+  studyCache: 'studyCache',
+  memoryVerses: 'memoryVerses',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let blockedHandler: ((blocked: boolean) => void) | null = null;
+
+/** Notified when an upgrade waits for other tabs to close the older version, and again once it goes through. */
+export const setDatabaseBlockedHandler = (handler: ((blocked: boolean) => void) | null) => {
+  blockedHandler = handler;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('INDEXEDDB_UNAVAILABLE'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      }
+    };
+    let blocked = false;
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) blockedHandler?.(false);
+      // Let a newer version open in another tab instead of blocking its upgrade
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Another tab still has the older version open; the request succeeds once it closes
+    request.onblocked = () => {
+      blocked = true;
+      console.warn('IndexedDB upgrade blocked; close other tabs of this app.');
+      blockedHandler?.(true);
+    };
+  });
+  // Allow a later retry if opening failed (e.g. private browsing).
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify<T | undefined>(db.transaction(store).objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName, prefix?: string): Promise<T[]> => {
+  const db = await openDatabase();
+  const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined;
+  return promisify<T[]>(db.transaction(store).objectStore(store).getAll(range));
+};
+
+export const idbKeys = async (store: StoreName, prefix?: string): Promise<string[]> => {
+  const db = await openDatabase();
+  const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined;
+  const keys = await promisify(db.transaction(store).objectStore(store).getAllKeys(range));
+  return keys.map(String);
+};
+
+export const idbPut = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+/** Writes many records in a single transaction, which is much faster for bulk imports. */
+export const idbPutMany = async <T>(store: StoreName, entries: [string, T][]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    for (const [key, value] of entries) objectStore.put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
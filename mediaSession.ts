@@ -0,0 +1,51 @@
+
+// 將朗讀狀態同步到作業系統的媒體控制（鎖定畫面、通知列、耳機按鍵）
+const APP_TITLE = '恩典聖經';
+const ARTWORK: MediaImage[] = [
+  { src: 'https://cdn-icons-png.flaticon.com/512/3389/3389381.png', sizes: '512x512', type: 'image/png' },
+];
+
+export type MediaActions = Partial<Record<MediaSessionAction, MediaSessionActionHandler>>;
+
+const HANDLED_ACTIONS: MediaSessionAction[] = [
+  'play', 'pause', 'stop', 'previoustrack', 'nexttrack', 'seekbackward', 'seekforward', 'seekto',
+];
+
+const session = () => ('mediaSession' in navigator ? navigator.mediaSession : null);
+
+export const setMediaMetadata = (title: string, artist: string) => {
+  const mediaSession = session();
+  if (!mediaSession || typeof MediaMetadata === 'undefined') return;
+  mediaSession.metadata = new MediaMetadata({ title, artist, album: APP_TITLE, artwork: ARTWORK });
+};
+
+export const setMediaPlaybackState = (state: MediaSessionPlaybackState) => {
+  const mediaSession = session();
+  if (mediaSession) mediaSession.playbackState = state;
+};
+
+/** Lets the OS draw and extrapolate the progress bar; clears it when nothing is loaded. */
+export const setMediaPosition = (duration: number, position: number, playbackRate: number) => {
+  const mediaSession = session();
+  if (!mediaSession?.setPositionState) return;
+  try {
+    mediaSession.setPositionState(duration > 0
+      ? { duration, position: Math.min(Math.max(0, position), duration), playbackRate }
+      : undefined);
+  } catch (error) {
+    console.warn("Media position error:", error);
+  }
+};
+
+/** Registers the handlers; actions without a handler are removed from the controls. */
+export const setMediaActions = (actions: MediaActions) => {
+  const mediaSession = session();
+  if (!mediaSession) return;
+  for (const action of HANDLED_ACTIONS) {
+    try {
+      mediaSession.setActionHandler(action, actions[action] ?? null);
+    } catch {
+      // Browsers throw for actions they do not support
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryVerse, ReviewSchedule } from './types';
+import { isDue, maskVerseText, nextSchedule, qualityFromScore, scoreRecitation, sortByDueDate } from './memoryVerses';
+
+const NOW = new Date(2026, 0, 10, 9, 0);
+const NEW_SCHEDULE: ReviewSchedule = { repetitions: 0, interval: 0, ease: 2.5, dueDate: '2026-01-10' };
+
+describe('nextSchedule', () => {
+  it('follows the SM-2 intervals of 1, 6 and then interval × ease days', () => {
+    const first = nextSchedule(NEW_SCHEDULE, 4, NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, ease: 2.5, dueDate: '2026-01-11' });
+    const second = nextSchedule(first, 4, NOW);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6, dueDate: '2026-01-16' });
+    const third = nextSchedule(second, 4, NOW);
+    expect(third).toMatchObject({ repetitions: 3, interval: 15, dueDate: '2026-01-25' });
+  });
+
+  it('raises the ease for easy answers and lowers it for hard ones', () => {
+    expect(nextSchedule(NEW_SCHEDULE, 5, NOW).ease).toBeCloseTo(2.6);
+    expect(nextSchedule(NEW_SCHEDULE, 3, NOW).ease).toBeCloseTo(2.36);
+  });
+
+  it('starts a failed verse over and brings it back tomorrow', () => {
+    const learned: ReviewSchedule = { repetitions: 4, interval: 30, ease: 2.5, dueDate: '2026-01-10' };
+    expect(nextSchedule(learned, 1, NOW)).toMatchObject({ repetitions: 0, interval: 1, dueDate: '2026-01-11' });
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const hard: ReviewSchedule = { repetitions: 0, interval: 1, ease: 1.3, dueDate: '2026-01-10' };
+    expect(nextSchedule(hard, 0, NOW).ease).toBe(1.3);
+  });
+
+  it('records when the review happened', () => {
+    expect(nextSchedule(NEW_SCHEDULE, 4, NOW).lastReviewedAt).toBe(NOW.toISOString());
+  });
+});
+
+describe('due verses', () => {
+  const verse = (dueDate: string, createdAt: string) => ({ schedule: { ...NEW_SCHEDULE, dueDate }, createdAt }) as MemoryVerse;
+
+  it('is due on and after its due date', () => {
+    expect(isDue(verse('2026-01-10', ''), '2026-01-10')).toBe(true);
+    expect(isDue(verse('2026-01-11', ''), '2026-01-10')).toBe(false);
+  });
+
+  it('sorts the most overdue verses first, then by creation', () => {
+    const a = verse('2026-01-12', '2026-01-01');
+    const b = verse('2026-01-05', '2026-01-02');
+    const c = verse('2026-01-05', '2026-01-01');
+    expect(sortByDueDate([a, b, c])).toEqual([c, b, a]);
+  });
+});
+
+describe('maskVerseText', () => {
+  it('hides every other English word at the partial level', () => {
+    expect(maskVerseText('For God so loved', 'partial')).toBe('For ___ so _____');
+  });
+
+  it('keeps first letters and punctuation at the initials level', () => {
+    expect(maskVerseText('For God, so loved.', 'initials')).toBe('F__ G__, s_ l____.');
+  });
+
+  it('keeps only the first character of each Chinese clause at the initials level', () => {
+    expect(maskVerseText('神愛世人，甚至將祂的獨生子賜給他們。', 'initials')).toBe('神＿＿＿，甚＿＿＿＿＿＿＿＿＿＿＿。');
+  });
+
+  it('leaves the text alone at the full level', () => {
+    expect(maskVerseText('For God so loved', 'full')).toBe('For God so loved');
+  });
+});
+
+describe('recitation scoring', () => {
+  it('ignores punctuation, spacing and case', () => {
+    expect(scoreRecitation('For God so loved the world.', 'for god so loved the world')).toBe(1);
+  });
+
+  it('scores by edit distance', () => {
+    expect(scoreRecitation('abcd', 'abxd')).toBeCloseTo(0.75);
+    expect(scoreRecitation('abcd', '')).toBe(0);
+  });
+
+  it('maps scores onto SM-2 qualities', () => {
+    expect(qualityFromScore(1)).toBe(5);
+    expect(qualityFromScore(0.92)).toBe(4);
+    expect(qualityFromScore(0.8)).toBe(3);
+    expect(qualityFromScore(0.6)).toBe(2);
+    expect(qualityFromScore(0.1)).toBe(1);
+  });
+});
@@ -0,0 +1,183 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { ChapterContent, MemoryVerse, ReviewSchedule } from './types';
+import { idbDelete, idbGetAll, idbPut, idbPutMany, STORES } from './idb';
+import { addDays, toDateKey } from './readingPlans';
+import { isTranslationId } from './translations';
+import { isInteger, isRecord } from './validation';
+
+export const memoryVerseKey = (verse: Pick<MemoryVerse, 'bookId' | 'chapter' | 'verse' | 'endVerse'>) =>
+  `${verse.bookId}:${verse.chapter}:${verse.verse}${verse.endVerse ? `-${verse.endVerse}` : ''}`;
+
+export const getMemoryVerses = () => idbGetAll<MemoryVerse>(STORES.memoryVerses);
+
+export const saveMemoryVerse = (verse: MemoryVerse) => idbPut(STORES.memoryVerses, memoryVerseKey(verse), verse);
+
+export const deleteMemoryVerse = (verse: MemoryVerse) => idbDelete(STORES.memoryVerses, memoryVerseKey(verse));
+
+/**
+ * A new memory verse for the selected verses of a loaded chapter, due today.
+ * Gaps in the selection are filled, so the verse is always one range.
+ */
+export const createMemoryVerse = (content: ChapterContent, verses: number[], translation: string): MemoryVerse | null => {
+  const first = Math.min(...verses);
+  const last = Math.max(...verses);
+  const text = content.verses.filter(v => v.number >= first && v.number <= last).map(v => v.text).join(' ');
+  if (!text) return null;
+  const now = new Date();
+  return {
+    bookId: content.bookId,
+    chapter: content.chapter,
+    verse: first,
+    ...(last > first && { endVerse: last }),
+    translation,
+    text,
+    schedule: { repetitions: 0, interval: 0, ease: 2.5, dueDate: toDateKey(now) },
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+// --- Scheduling (SM-2) ---
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// 自評對應 SM-2 的 0-5 分
+export const REVIEW_GRADES: { id: ReviewGrade; label: string; quality: number }[] = [
+  { id: 'again', label: '忘記了', quality: 1 },
+  { id: 'hard', label: '吃力', quality: 3 },
+  { id: 'good', label: '記得', quality: 4 },
+  { id: 'easy', label: '很熟', quality: 5 },
+];
+
+/**
+ * Next schedule after a review with an SM-2 quality from 0 to 5. Failed
+ * reviews (below 3) start the verse over and bring it back tomorrow.
+ */
+export const nextSchedule = (schedule: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule => {
+  const ease = Math.max(1.3, schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const passed = quality >= 3;
+  const repetitions = passed ? schedule.repetitions + 1 : 0;
+  const interval = !passed ? 1
+    : repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round(schedule.interval * ease);
+  return { repetitions, interval, ease, dueDate: addDays(toDateKey(now), interval), lastReviewedAt: now.toISOString() };
+};
+
+export const reviewMemoryVerse = async (verse: MemoryVerse, quality: number) => {
+  const now = new Date();
+  const reviewed = { ...verse, schedule: nextSchedule(verse.schedule, quality, now), updatedAt: now.toISOString() };
+  await saveMemoryVerse(reviewed);
+  return reviewed;
+};
+
+export const isDue = (verse: MemoryVerse, today: string = toDateKey(new Date())) => verse.schedule.dueDate <= today;
+
+/** Due verses first, most overdue first; the rest by their next review date. */
+export const sortByDueDate = (verses: MemoryVerse[]) =>
+  [...verses].sort((a, b) => a.schedule.dueDate.localeCompare(b.schedule.dueDate) || a.createdAt.localeCompare(b.createdAt));
+
+// --- Practice ---
+
+export type HintLevel = 'full' | 'partial' | 'initials' | 'blank';
+
+export const HINT_LEVELS: { id: HintLevel; label: string }[] = [
+  { id: 'full', label: '全文' },
+  { id: 'partial', label: '隱藏一半' },
+  { id: 'initials', label: '只留首字' },
+  { id: 'blank', label: '全部空白' },
+];
+
+const CJK = /[㐀-鿿豈-﫿]/;
+const WORD = /^[\p{L}\p{N}']+$/u;
+const BLANK = '＿';
+
+// 中文逐字、英文逐詞切分；標點與空白原樣保留
+const tokenize = (text: string) =>
+  text.match(/[㐀-鿿豈-﫿]|(?:(?![㐀-鿿豈-﫿])[\p{L}\p{N}'])+|[^\p{L}\p{N}']+/gu) ?? [];
+
+const hideWord = (word: string, keepFirst: boolean) =>
+  CJK.test(word) ? BLANK : (keepFirst ? word[0] : '') + '_'.repeat(keepFirst ? word.length - 1 : word.length);
+
+/**
+ * Progressively hidden text: every other word, only the first letter of each
+ * English word (for Chinese, the first character of each clause), or all
+ * words blanked. Punctuation stays visible as a guide.
+ */
+export const maskVerseText = (text: string, level: HintLevel) => {
+  if (level === 'full') return text;
+  let wordIndex = 0;
+  let clauseStart = true;
+  return tokenize(text).map(token => {
+    if (!WORD.test(token) && !CJK.test(token)) {
+      if (/[，。；：！？、,.;:!?]/.test(token)) clauseStart = true;
+      return token;
+    }
+    const index = wordIndex++;
+    const isClauseStart = clauseStart;
+    clauseStart = false;
+    switch (level) {
+      case 'partial': return index % 2 === 1 ? hideWord(token, false) : token;
+      case 'initials': return CJK.test(token) ? (isClauseStart ? token : BLANK) : hideWord(token, true);
+      default: return hideWord(token, false);
+    }
+  }).join('');
+};
+
+const normalizeForScoring = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Similarity of a typed recitation to the verse from 0 to 1, ignoring punctuation, spacing and case. */
+export const scoreRecitation = (expected: string, typed: string) => {
+  const a = normalizeForScoring(expected);
+  const b = normalizeForScoring(typed);
+  if (!a) return 0;
+  return Math.max(0, 1 - editDistance(a, b) / a.length);
+};
+
+/** SM-2 quality for a typed recitation. */
+export const qualityFromScore = (score: number) =>
+  score >= 0.98 ? 5 : score >= 0.9 ? 4 : score >= 0.75 ? 3 : score >= 0.5 ? 2 : 1;
+
+// --- Backup ---
+
+/** Checks a memory verse read from a backup file against `BIBLE_BOOKS`. */
+export const isValidMemoryVerse = (value: unknown): value is MemoryVerse => {
+  if (!isRecord(value)) return false;
+  const book = BIBLE_BOOKS.find(b => b.id === value.bookId);
+  if (!book) return false;
+  const { chapter, verse, endVerse, translation, text, schedule, createdAt, updatedAt } = value;
+  return isInteger(chapter) && chapter >= 1 && chapter <= book.chapters
+    && isInteger(verse) && verse >= 1
+    && (endVerse === undefined || (isInteger(endVerse) && endVerse > verse))
+    && isTranslationId(translation)
+    && typeof text === 'string' && text.length > 0
+    && isRecord(schedule) && isInteger(schedule.repetitions) && schedule.repetitions >= 0
+    && typeof schedule.interval === 'number' && schedule.interval >= 0
+    && typeof schedule.ease === 'number' && schedule.ease >= 1.3
+    && typeof schedule.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(schedule.dueDate)
+    && typeof createdAt === 'string' && typeof updatedAt === 'string';
+};
+
+/** Adds memory verses from a backup; when both sides have a verse the newer review wins. Returns how many changed. */
+export const mergeMemoryVerses = async (incoming: MemoryVerse[]) => {
+  const local = new Map((await getMemoryVerses()).map(v => [memoryVerseKey(v), v]));
+  const changed = incoming.filter(v => {
+    const existing = local.get(memoryVerseKey(v));
+    return !existing || v.updatedAt > existing.updatedAt;
+  });
+  await idbPutMany(STORES.memoryVerses, changed.map(v => [memoryVerseKey(v), v] as [string, MemoryVerse]));
+  return changed.length;
+};
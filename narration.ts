@@ -0,0 +1,81 @@
+
+import { DEFAULT_VOICE, TTS_VOICES } from './constants';
+import { ChapterContent, MemoryVerse, ReadingStyle, SpeechLanguage, SpeechOptions, TtsSettings } from './types';
+import { getTranslation, localizedBookName } from './translations';
+import { audioCacheKey } from './offlineCache';
+import { splitIntoSpeechChunks } from './scripture';
+import { isRecord } from './validation';
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  voice: DEFAULT_VOICE,
+  style: 'calm',
+  announceChapter: false,
+  dialect: 'mandarin',
+};
+
+export const READING_STYLES: { id: ReadingStyle; label: string; description: string }[] = [
+  { id: 'calm', label: '平穩', description: '穩定莊重，適合日常讀經' },
+  { id: 'liturgical', label: '禮儀', description: '緩慢莊嚴，適合崇拜與讀經聚會' },
+  { id: 'children', label: '兒童', description: '親切溫和，適合親子共讀' },
+];
+
+// 依朗讀語言與風格給 TTS 模型的指示
+const STYLE_INSTRUCTIONS: Record<SpeechLanguage, Record<ReadingStyle, string>> = {
+  mandarin: {
+    calm: '請用國語，以穩定且莊重的語氣朗讀這段聖經經文：',
+    liturgical: '請用國語，以緩慢、莊嚴、適合公開崇拜的語氣朗讀這段聖經經文：',
+    children: '請用國語，以親切溫和、像對孩子說故事的語氣朗讀這段聖經經文：',
+  },
+  cantonese: {
+    calm: '請用粵語（廣東話），以穩定且莊重的語氣朗讀這段聖經經文：',
+    liturgical: '請用粵語（廣東話），以緩慢、莊嚴、適合公開崇拜的語氣朗讀這段聖經經文：',
+    children: '請用粵語（廣東話），以親切溫和、像對孩子說故事的語氣朗讀這段聖經經文：',
+  },
+  english: {
+    calm: 'Read this Bible passage aloud in a steady, reverent tone: ',
+    liturgical: 'Read this Bible passage aloud slowly and solemnly, as in a public worship service: ',
+    children: 'Read this Bible passage aloud in a warm, gentle storytelling tone for children: ',
+  },
+};
+
+export const speechInstruction = (options: SpeechOptions) => STYLE_INSTRUCTIONS[options.language][options.style];
+
+/** Validates TTS preferences read from storage or a backup file. */
+export const isValidTtsSettings = (value: unknown): value is TtsSettings =>
+  isRecord(value)
+  && TTS_VOICES.some(v => v.id === value.voice)
+  && READING_STYLES.some(s => s.id === value.style)
+  && typeof value.announceChapter === 'boolean'
+  && (value.dialect === 'mandarin' || value.dialect === 'cantonese');
+
+/** English translations are always read in English; Chinese ones in the chosen dialect. */
+export const speechOptionsFor = (translation: string, tts: TtsSettings): SpeechOptions => ({
+  voice: tts.voice,
+  style: tts.style,
+  language: getTranslation(translation).language === 'en' ? 'english' : tts.dialect,
+});
+
+/** Audio cache key of a chapter; includes the voice, style and language so switching them never replays other audio. */
+export const chapterAudioKey = (translation: string, bookId: string, chapter: number, tts: TtsSettings) => {
+  const { voice, style, language } = speechOptionsFor(translation, tts);
+  return audioCacheKey(translation, bookId, chapter, `${voice}-${style}-${language}`);
+};
+
+/** Audio cache key of a memory verse, kept apart from the chapter narration's chunks. */
+export const memoryVerseAudioKey = (verse: MemoryVerse, tts: TtsSettings) =>
+  `${chapterAudioKey(verse.translation, verse.bookId, verse.chapter, tts)}:memory:${verse.verse}-${verse.endVerse ?? verse.verse}`;
+
+const chapterAnnouncement = (bookId: string, chapter: number, translation: string) => {
+  const name = localizedBookName(bookId, translation);
+  if (getTranslation(translation).language === 'en') {
+    return bookId === 'PSA' ? `Psalm ${chapter}.` : `${name}, chapter ${chapter}.`;
+  }
+  return `${name}第${chapter}${bookId === 'PSA' ? '篇' : '章'}。`;
+};
+
+/** Narration chunks for a chapter, with the optional book and chapter announcement. */
+export const buildSpeechChunks = (content: ChapterContent, translation: string, tts: TtsSettings) =>
+  splitIntoSpeechChunks(
+    content,
+    tts.announceChapter ? chapterAnnouncement(content.bookId, content.chapter, translation) : undefined
+  );
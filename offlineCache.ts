@@ -0,0 +1,133 @@
+
+import { ChapterContent, PassageStudy, SpeechAudio, SpeechChunk, StudyPassage } from './types';
+import { formatVerseList } from './referenceParser';
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut, STORES } from './idb';
+
+type CacheStore = typeof STORES.chapterCache | typeof STORES.audioCache | typeof STORES.studyCache;
+
+interface CacheMeta {
+  store: CacheStore;
+  key: string;
+  size: number; // Approximate size in bytes
+  lastAccessed: number;
+  pinned?: boolean; // Downloaded for offline use; never evicted automatically
+}
+
+// 快取容量上限（位元組），超過時依「最久未使用」順序淘汰
+export const CACHE_LIMITS: Record<CacheStore, number> = {
+  [STORES.chapterCache]: 20 * 1024 * 1024,
+  [STORES.audioCache]: 300 * 1024 * 1024,
+  [STORES.studyCache]: 5 * 1024 * 1024,
+};
+
+export const chapterCacheKey = (translation: string, bookId: string, chapter: number) =>
+  `${translation}:${bookId}:${chapter}`;
+
+/** `voiceProfile` identifies how the audio was narrated (voice, style and language). */
+export const audioCacheKey = (translation: string, bookId: string, chapter: number, voiceProfile: string) =>
+  `${translation}:${bookId}:${chapter}:${voiceProfile}`;
+
+/** One entry per passage, so notes on selected verses are kept apart from the whole chapter's. */
+export const studyCacheKey = (translation: string, passage: StudyPassage) =>
+  `${translation}:${passage.bookId}:${passage.chapter}:${passage.verses.length > 0 ? formatVerseList(passage.verses).replace(/ /g, '') : 'all'}`;
+
+// FNV-1a：讓經文內容變動時（例如匯入新經文後）不會誤用舊的音訊
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** Key for one narration chunk of a chapter; `chapterKey` comes from `audioCacheKey`. */
+export const audioChunkCacheKey = (chapterKey: string, chunk: SpeechChunk) =>
+  `${chapterKey}:${chunk.index}:${hashText(chunk.text)}`;
+
+const metaKey = (store: CacheStore, key: string) => `${store}|${key}`;
+
+const evict = async (store: CacheStore) => {
+  const entries = await idbGetAll<CacheMeta>(STORES.cacheMeta, `${store}|`);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  const candidates = entries.filter(e => !e.pinned).sort((a, b) => a.lastAccessed - b.lastAccessed);
+  for (const entry of candidates) {
+    if (total <= CACHE_LIMITS[store]) break;
+    await idbDelete(store, entry.key);
+    await idbDelete(STORES.cacheMeta, metaKey(store, entry.key));
+    total -= entry.size;
+  }
+};
+
+const readCache = async <T>(store: CacheStore, key: string): Promise<T | undefined> => {
+  try {
+    const value = await idbGet<T>(store, key);
+    if (value !== undefined) {
+      const meta = await idbGet<CacheMeta>(STORES.cacheMeta, metaKey(store, key));
+      if (meta) await idbPut(STORES.cacheMeta, metaKey(store, key), { ...meta, lastAccessed: Date.now() });
+    }
+    return value;
+  } catch (error) {
+    console.warn('Cache read failed:', error);
+    return undefined;
+  }
+};
+
+const writeCache = async <T>(store: CacheStore, key: string, value: T, size: number) => {
+  try {
+    const existing = await idbGet<CacheMeta>(STORES.cacheMeta, metaKey(store, key));
+    await idbPut(store, key, value);
+    await idbPut<CacheMeta>(STORES.cacheMeta, metaKey(store, key), {
+      store,
+      key,
+      size,
+      lastAccessed: Date.now(),
+      pinned: existing?.pinned,
+    });
+    await evict(store);
+  } catch (error) {
+    console.warn('Cache write failed:', error);
+  }
+};
+
+export const getCachedChapter = (key: string) => readCache<ChapterContent>(STORES.chapterCache, key);
+
+export const cacheChapter = (key: string, content: ChapterContent) =>
+  writeCache(STORES.chapterCache, key, content, JSON.stringify(content).length * 2);
+
+export const getCachedAudio = async (key: string): Promise<SpeechAudio | undefined> => {
+  const cached = await readCache<SpeechAudio | string>(STORES.audioCache, key);
+  // Entries written before the format was stored are 24 kHz mono
+  return typeof cached === 'string' ? { data: cached, sampleRate: 24000, channels: 1 } : cached;
+};
+
+/** Stores PCM audio as returned by the TTS model. */
+export const cacheAudio = (key: string, audio: SpeechAudio) =>
+  writeCache(STORES.audioCache, key, audio, audio.data.length);
+
+export const getCachedStudy = (key: string) => readCache<PassageStudy>(STORES.studyCache, key);
+
+export const cacheStudy = (key: string, study: PassageStudy) =>
+  writeCache(STORES.studyCache, key, study, JSON.stringify(study).length * 2);
+
+/** Marks entries as downloaded for offline use so that eviction skips them. */
+export const pinCacheEntries = async (store: CacheStore, keys: string[]) => {
+  for (const key of keys) {
+    const meta = await idbGet<CacheMeta>(STORES.cacheMeta, metaKey(store, key));
+    if (meta) await idbPut(STORES.cacheMeta, metaKey(store, key), { ...meta, pinned: true });
+  }
+};
+
+export const getCacheUsage = async () => {
+  const entries = await idbGetAll<CacheMeta>(STORES.cacheMeta);
+  const sum = (store: CacheStore) =>
+    entries.filter(e => e.store === store).reduce((total, e) => total + e.size, 0);
+  return { chapters: sum(STORES.chapterCache), audio: sum(STORES.audioCache), study: sum(STORES.studyCache) };
+};
+
+export const clearOfflineCache = async () => {
+  await idbClear(STORES.chapterCache);
+  await idbClear(STORES.audioCache);
+  await idbClear(STORES.studyCache);
+  await idbClear(STORES.cacheMeta);
+};
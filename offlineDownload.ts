@@ -0,0 +1,63 @@
+
+import { DEFAULT_TRANSLATION } from './constants';
+import { BibleBook, TtsSettings } from './types';
+import { STORES } from './idb';
+import { fetchChapterText } from './textProviders';
+import { streamSpeechChunks } from './geminiService';
+import { audioChunkCacheKey, chapterCacheKey, pinCacheEntries } from './offlineCache';
+import { buildSpeechChunks, chapterAudioKey, DEFAULT_TTS_SETTINGS, speechOptionsFor } from './narration';
+
+export interface DownloadOptions {
+  translation?: string;
+  includeAudio?: boolean;
+  tts?: TtsSettings; // Narration settings; cache keys match playback only when they are the same
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Fetches every chapter of a book (and optionally its narration) into the
+ * offline cache and pins the entries so they are not evicted.
+ */
+export const downloadBookForOffline = async (book: BibleBook, options: DownloadOptions = {}) => {
+  const { translation = DEFAULT_TRANSLATION, includeAudio = false, tts = DEFAULT_TTS_SETTINGS, signal, onProgress } = options;
+
+  for (let chapter = 1; chapter <= book.chapters; chapter++) {
+    if (signal?.aborted) throw new DOMException('Download cancelled', 'AbortError');
+
+    const content = await fetchChapterText(book, chapter, translation, signal);
+    await pinCacheEntries(STORES.chapterCache, [chapterCacheKey(translation, book.id, chapter)]);
+
+    if (includeAudio) {
+      const key = chapterAudioKey(translation, book.id, chapter, tts);
+      const chunks = buildSpeechChunks(content, translation, tts);
+      await streamSpeechChunks(chunks, {
+        speech: speechOptionsFor(translation, tts),
+        chapterCacheKey: key,
+        signal,
+        onChunk: () => {},
+      });
+      await pinCacheEntries(STORES.audioCache, chunks.map(chunk => audioChunkCacheKey(key, chunk)));
+    }
+
+    onProgress?.(chapter, book.chapters);
+  }
+};
+
+/**
+ * Warms the cache for an upcoming chapter: its text and the first narration
+ * chunks, so continuous listening can move on without a pause.
+ */
+export const prefetchChapter = async (
+  book: BibleBook,
+  chapter: number,
+  { translation = DEFAULT_TRANSLATION, tts = DEFAULT_TTS_SETTINGS, audioChunks = 2 } = {}
+) => {
+  const content = await fetchChapterText(book, chapter, translation);
+  if (audioChunks <= 0) return;
+  await streamSpeechChunks(buildSpeechChunks(content, translation, tts).slice(0, audioChunks), {
+    speech: speechOptionsFor(translation, tts),
+    chapterCacheKey: chapterAudioKey(translation, book.id, chapter, tts),
+    onChunk: () => {},
+  });
+};
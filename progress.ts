@@ -0,0 +1,177 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { CompletionSource, ListeningStats, ReadingProgress } from './types';
+import { addDays, toDateKey } from './readingPlans';
+
+const PROGRESS_KEY = 'bible-progress';
+const LISTENING_KEY = 'bible-listening';
+
+/**
+ * Converts saved progress into the current shape. Older versions stored a bare
+ * array of chapter numbers per book (`{ GEN: [1, 2] }`); those chapters keep
+ * their completion but have no timestamp.
+ */
+export const migrateProgress = (raw: unknown): ReadingProgress => {
+  const progress: ReadingProgress = {};
+  if (!raw || typeof raw !== 'object') return progress;
+
+  for (const [bookId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (Array.isArray(value)) {
+      const chapters: ReadingProgress[string] = {};
+      for (const chapter of value) {
+        if (Number.isInteger(chapter)) chapters[chapter] = { completedAt: null, via: 'read' };
+      }
+      progress[bookId] = chapters;
+    } else if (value && typeof value === 'object') {
+      progress[bookId] = value as ReadingProgress[string];
+    }
+  }
+  return progress;
+};
+
+export const loadProgress = (): ReadingProgress => {
+  try {
+    return migrateProgress(JSON.parse(localStorage.getItem(PROGRESS_KEY) || '{}'));
+  } catch {
+    return {};
+  }
+};
+
+export const saveProgress = (progress: ReadingProgress) => {
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+};
+
+export const isChapterCompleted = (progress: ReadingProgress, bookId: string, chapter: number) =>
+  !!progress[bookId]?.[chapter];
+
+export const completedChapterCount = (progress: ReadingProgress, bookId: string) =>
+  Object.keys(progress[bookId] || {}).length;
+
+export const setChapterCompleted = (
+  progress: ReadingProgress,
+  bookId: string,
+  chapter: number,
+  via: CompletionSource | null // null clears the completion
+): ReadingProgress => {
+  const chapters = { ...(progress[bookId] || {}) };
+  if (via) {
+    chapters[chapter] = { completedAt: new Date().toISOString(), via };
+  } else {
+    delete chapters[chapter];
+  }
+  return { ...progress, [bookId]: chapters };
+};
+
+// --- Listening time ---
+
+export const loadListeningStats = (): ListeningStats => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LISTENING_KEY) || 'null');
+    if (saved && typeof saved.totalSeconds === 'number') return saved;
+  } catch {}
+  return { totalSeconds: 0, byDate: {} };
+};
+
+export const saveListeningStats = (stats: ListeningStats) => {
+  localStorage.setItem(LISTENING_KEY, JSON.stringify(stats));
+};
+
+export const addListeningTime = (stats: ListeningStats, seconds: number, date: Date = new Date()): ListeningStats => {
+  const day = toDateKey(date);
+  return {
+    totalSeconds: stats.totalSeconds + seconds,
+    byDate: { ...stats.byDate, [day]: (stats.byDate[day] || 0) + seconds },
+  };
+};
+
+// --- Statistics ---
+
+export interface BookStats {
+  bookId: string;
+  name: string;
+  completed: number;
+  total: number;
+}
+
+export interface ReadingStats {
+  bible: { completed: number; total: number };
+  oldTestament: { completed: number; total: number };
+  newTestament: { completed: number; total: number };
+  books: BookStats[];
+  activityByDate: { [date: string]: number }; // Chapters completed plus listening minutes per day
+  currentStreak: number;
+  longestStreak: number;
+  readCount: number;
+  listenCount: number;
+  totalListeningSeconds: number;
+}
+
+// 單日收聽至少 1 分鐘才算有讀經活動
+const MIN_LISTENING_SECONDS = 60;
+
+export const computeStats = (
+  progress: ReadingProgress,
+  listening: ListeningStats,
+  today: string = toDateKey(new Date())
+): ReadingStats => {
+  const books = BIBLE_BOOKS.map(book => ({
+    bookId: book.id,
+    name: book.name,
+    completed: Math.min(book.chapters, completedChapterCount(progress, book.id)),
+    total: book.chapters,
+  }));
+  const sum = (testament?: 'Old' | 'New') => {
+    const selected = BIBLE_BOOKS.filter(b => !testament || b.testament === testament);
+    return {
+      completed: books.filter(b => selected.some(s => s.id === b.bookId)).reduce((n, b) => n + b.completed, 0),
+      total: selected.reduce((n, b) => n + b.chapters, 0),
+    };
+  };
+
+  const activityByDate: { [date: string]: number } = {};
+  let readCount = 0;
+  let listenCount = 0;
+  for (const chapters of Object.values(progress)) {
+    for (const completion of Object.values(chapters)) {
+      if (completion.via === 'listen') listenCount++; else readCount++;
+      if (!completion.completedAt) continue;
+      const day = toDateKey(new Date(completion.completedAt));
+      activityByDate[day] = (activityByDate[day] || 0) + 1;
+    }
+  }
+  for (const [day, seconds] of Object.entries(listening.byDate)) {
+    if (seconds >= MIN_LISTENING_SECONDS) {
+      activityByDate[day] = (activityByDate[day] || 0) + Math.floor(seconds / 60);
+    }
+  }
+
+  // Longest run of consecutive active days
+  const activeDays = Object.keys(activityByDate).sort();
+  let longestStreak = 0;
+  let run = 0;
+  activeDays.forEach((day, i) => {
+    run = i > 0 && addDays(activeDays[i - 1], 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // The current streak may end yesterday if nothing has been read yet today
+  let currentStreak = 0;
+  let cursor = activityByDate[today] ? today : addDays(today, -1);
+  while (activityByDate[cursor]) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return {
+    bible: sum(),
+    oldTestament: sum('Old'),
+    newTestament: sum('New'),
+    books,
+    activityByDate,
+    currentStreak,
+    longestStreak,
+    readCount,
+    listenCount,
+    totalListeningSeconds: listening.totalSeconds,
+  };
+};
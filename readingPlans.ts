@@ -0,0 +1,171 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { ActivePlan, ChapterRef, CustomPlanConfig, ReadingPlan } from './types';
+import { isRecord } from './validation';
+
+// --- Dates (local calendar days as YYYY-MM-DD) ---
+
+export const toDateKey = (date: Date) => {
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+};
+
+const parseDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+/** Whole calendar days from `from` to `to` (negative when `to` is earlier). */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+
+// --- Plan building ---
+
+const bookChapters = (bookId: string, from = 1, to?: number): ChapterRef[] => {
+  const book = BIBLE_BOOKS.find(b => b.id === bookId);
+  if (!book) return [];
+  const last = Math.min(to ?? book.chapters, book.chapters);
+  return Array.from({ length: last - from + 1 }, (_, i) => ({ bookId, chapter: from + i }));
+};
+
+const chaptersOf = (books: typeof BIBLE_BOOKS) => books.flatMap(b => bookChapters(b.id));
+
+/** Spreads chapters over `days` days as evenly as possible, keeping their order. */
+export const distributeChapters = (chapters: ChapterRef[], days: number): ChapterRef[][] => {
+  const count = Math.max(1, days);
+  return Array.from({ length: count }, (_, i) =>
+    chapters.slice(Math.floor((i * chapters.length) / count), Math.floor(((i + 1) * chapters.length) / count))
+  );
+};
+
+// 依歷史年代大致排列的書卷順序（同一卷書可分段穿插）
+const CHRONOLOGICAL_ORDER: [string, number?, number?][] = [
+  ['GEN', 1, 11], ['JOB'], ['GEN', 12, 50], ['EXO'], ['LEV'], ['NUM'], ['DEU'], ['JOS'], ['JDG'], ['RUT'],
+  ['1SA'], ['2SA'], ['1CH'], ['PSA'], ['1KI', 1, 11], ['PRO'], ['ECC'], ['SNG'], ['1KI', 12, 22],
+  ['2KI', 1, 14], ['JOL'], ['JON'], ['AMO'], ['HOS'], ['2KI', 15, 17], ['ISA'], ['MIC'], ['2KI', 18, 25],
+  ['NAH'], ['ZEP'], ['HAB'], ['JER'], ['LAM'], ['2CH'], ['OBD'], ['EZK'], ['DAN'], ['EZR', 1, 6], ['HAG'],
+  ['ZEC'], ['EZR', 7, 10], ['EST'], ['NEH'], ['MAL'],
+  ['MAT'], ['MRK'], ['LUK'], ['JHN'], ['JAS'], ['ACT', 1, 14], ['GAL'], ['ACT', 15, 18], ['1TH'], ['2TH'],
+  ['ACT', 19, 20], ['1CO'], ['2CO'], ['ROM'], ['ACT', 21, 28], ['EPH'], ['PHP'], ['COL'], ['PHM'], ['1TI'],
+  ['TIT'], ['1PE'], ['HEB'], ['2TI'], ['2PE'], ['JUD'], ['1JO'], ['2JO'], ['3JO'], ['REV'],
+];
+
+const psalmsAndProverbs = () => {
+  const psalms = distributeChapters(bookChapters('PSA'), 31);
+  return psalms.map((day, i) => [...day, { bookId: 'PRO', chapter: i + 1 }]);
+};
+
+export const BUILT_IN_PLANS: ReadingPlan[] = [
+  {
+    id: 'bible-year',
+    name: '一年讀完全本聖經',
+    description: '每天約 3–4 章，365 天從創世記讀到啟示錄',
+    days: distributeChapters(chaptersOf(BIBLE_BOOKS), 365),
+  },
+  {
+    id: 'nt-90',
+    name: '90 天讀完新約',
+    description: '每天約 3 章，從馬太福音到啟示錄',
+    days: distributeChapters(chaptersOf(BIBLE_BOOKS.filter(b => b.testament === 'New')), 90),
+  },
+  {
+    id: 'psalms-proverbs',
+    name: '每月詩篇與箴言',
+    description: '31 天，每天約 5 篇詩篇與 1 章箴言',
+    days: psalmsAndProverbs(),
+  },
+  {
+    id: 'chronological',
+    name: '按年代順序一年讀經',
+    description: '依事件發生的大致年代編排，365 天讀完全本聖經',
+    days: distributeChapters(CHRONOLOGICAL_ORDER.flatMap(([id, from, to]) => bookChapters(id, from, to)), 365),
+  },
+];
+
+export const buildCustomPlan = (config: CustomPlanConfig): ReadingPlan => {
+  const from = BIBLE_BOOKS.findIndex(b => b.id === config.fromBookId);
+  const to = BIBLE_BOOKS.findIndex(b => b.id === config.toBookId);
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  const books = BIBLE_BOOKS.slice(first, last + 1);
+  const days = Math.max(1, daysBetween(config.startDate, config.endDate) + 1);
+  return {
+    id: 'custom',
+    name: `自訂：${books[0]?.name ?? ''}–${books[books.length - 1]?.name ?? ''}`,
+    description: `${config.startDate} 至 ${config.endDate}，共 ${days} 天`,
+    days: distributeChapters(chaptersOf(books), days),
+  };
+};
+
+export const resolvePlan = (active: ActivePlan): ReadingPlan | null =>
+  active.planId === 'custom' && active.custom
+    ? buildCustomPlan(active.custom)
+    : BUILT_IN_PLANS.find(p => p.id === active.planId) ?? null;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const isDateKey = (value: unknown) => typeof value === 'string' && DATE_KEY.test(value);
+const isBookId = (id: unknown) => BIBLE_BOOKS.some(b => b.id === id);
+
+/** Validates a plan read from storage or a backup file. */
+export const isValidActivePlan = (value: unknown): value is ActivePlan => {
+  if (!isRecord(value) || !isDateKey(value.startDate)) return false;
+  if (value.planId !== 'custom') return BUILT_IN_PLANS.some(p => p.id === value.planId);
+  const custom = value.custom;
+  return isRecord(custom) && isBookId(custom.fromBookId) && isBookId(custom.toBookId)
+    && isDateKey(custom.startDate) && isDateKey(custom.endDate);
+};
+
+// --- Schedule status ---
+
+export interface PlanStatus {
+  dayIndex: number; // 0-based day of the plan for today, clamped to the plan length
+  todaysReading: ChapterRef[];
+  firstIncompleteDay: number; // plan.days.length when everything is done
+  daysBehind: number; // Past days that still have unread chapters
+  daysAhead: number; // Future days already fully read
+  completedChapters: number;
+  totalChapters: number;
+  isFinished: boolean;
+}
+
+export const getPlanStatus = (
+  plan: ReadingPlan,
+  active: ActivePlan,
+  isCompleted: (bookId: string, chapter: number) => boolean,
+  today: string = toDateKey(new Date())
+): PlanStatus => {
+  const dayIndex = Math.min(Math.max(0, daysBetween(active.startDate, today)), plan.days.length - 1);
+  const dayDone = (day: ChapterRef[]) => day.every(ref => isCompleted(ref.bookId, ref.chapter));
+  const firstIncomplete = plan.days.findIndex(day => !dayDone(day));
+  const firstIncompleteDay = firstIncomplete === -1 ? plan.days.length : firstIncomplete;
+
+  const all = plan.days.flat();
+  const completedChapters = all.filter(ref => isCompleted(ref.bookId, ref.chapter)).length;
+
+  return {
+    dayIndex,
+    todaysReading: daysBetween(active.startDate, today) < 0 ? [] : plan.days[dayIndex],
+    firstIncompleteDay,
+    daysBehind: Math.max(0, dayIndex - firstIncompleteDay),
+    daysAhead: Math.max(0, firstIncompleteDay - dayIndex - 1),
+    completedChapters,
+    totalChapters: all.length,
+    isFinished: firstIncompleteDay >= plan.days.length,
+  };
+};
+
+/** Shifts the plan so the first unfinished day falls on `today`. */
+export const reschedulePlan = (
+  active: ActivePlan,
+  status: PlanStatus,
+  today: string = toDateKey(new Date())
+): ActivePlan => ({
+  ...active,
+  startDate: addDays(today, -status.firstIncompleteDay),
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { formatVerseList, parseHash, parseReference, referenceToHash, resolveBook, toVerseRange } from './referenceParser';
+
+describe('parseReference', () => {
+  it('parses Chinese abbreviations with a verse', () => {
+    expect(parseReference('約 3:16')).toEqual({ bookId: 'JHN', chapter: 3, verse: 16 });
+  });
+
+  it('parses full-width digits and Chinese chapter and verse markers', () => {
+    expect(parseReference('約翰福音３：１６')).toEqual({ bookId: 'JHN', chapter: 3, verse: 16 });
+    expect(parseReference('約翰福音第3章16節')).toEqual({ bookId: 'JHN', chapter: 3, verse: 16 });
+  });
+
+  it('treats a range after a verse as a verse range', () => {
+    expect(parseReference('羅 8:28-39')).toEqual({ bookId: 'ROM', chapter: 8, verse: 28, endVerse: 39 });
+  });
+
+  it('parses chapter ranges and cross-chapter ranges', () => {
+    expect(parseReference('創世記 1-2')).toEqual({ bookId: 'GEN', chapter: 1, endChapter: 2 });
+    expect(parseReference('Genesis 1:31-2:3')).toEqual({ bookId: 'GEN', chapter: 1, verse: 31, endChapter: 2, endVerse: 3 });
+  });
+
+  it('parses English names and USFM codes', () => {
+    expect(parseReference('John 3:16')).toEqual({ bookId: 'JHN', chapter: 3, verse: 16 });
+    expect(parseReference('JHN.3.16')).toEqual({ bookId: 'JHN', chapter: 3, verse: 16 });
+  });
+
+  it('reads numbers after a single-chapter book as verses', () => {
+    expect(parseReference('Jude 3-4')).toEqual({ bookId: 'JUD', chapter: 1, verse: 3, endVerse: 4 });
+  });
+
+  it('defaults to the first chapter when only a book is given', () => {
+    expect(parseReference('Genesis')).toEqual({ bookId: 'GEN', chapter: 1 });
+  });
+
+  it('rejects unknown books, chapters out of range and reversed verses', () => {
+    expect(parseReference('Foo 1:1')).toBeNull();
+    expect(parseReference('Genesis 51')).toBeNull();
+    expect(parseReference('John 3:16-10')).toBeNull();
+  });
+});
+
+describe('resolveBook', () => {
+  it('accepts an unambiguous prefix and rejects an ambiguous one', () => {
+    expect(resolveBook('Gene')?.id).toBe('GEN');
+    expect(resolveBook('J')).toBeNull();
+  });
+});
+
+describe('hash references', () => {
+  it('round-trips through the URL hash', () => {
+    const ref = { bookId: 'ROM', chapter: 8, verse: 28, endVerse: 39 };
+    expect(referenceToHash(ref)).toBe('#/ROM/8/28-39');
+    expect(parseHash('#/ROM/8/28-39')).toEqual(ref);
+  });
+
+  it('ignores an empty hash', () => {
+    expect(parseHash('')).toBeNull();
+    expect(parseHash('#/')).toBeNull();
+  });
+});
+
+describe('verse helpers', () => {
+  it('formats verse lists as compact ranges', () => {
+    expect(formatVerseList([20, 16, 17, 18, 16])).toBe('16-18, 20');
+  });
+
+  it('extends cross-chapter ranges to the end of the first chapter', () => {
+    expect(toVerseRange({ bookId: 'GEN', chapter: 1, verse: 31, endChapter: 2, endVerse: 3 })).toEqual([31, Infinity]);
+    expect(toVerseRange({ bookId: 'GEN', chapter: 1 })).toBeNull();
+  });
+});
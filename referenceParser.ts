@@ -0,0 +1,220 @@
+
+import { BIBLE_BOOKS, BOOK_NAMES_EN } from './constants';
+import { normalizeBookId } from './bibleImport';
+import { BibleBook, ScriptureReference } from './types';
+
+// 和合本慣用的書卷縮寫與常見英文縮寫（英文全名見 BOOK_NAMES_EN）
+const BOOK_NAME_ALIASES: Record<string, string[]> = {
+  GEN: ['創', '創世紀', 'Gen', 'Gn'],
+  EXO: ['出', 'Exod', 'Ex'],
+  LEV: ['利', 'Lev', 'Lv'],
+  NUM: ['民', 'Num', 'Nm'],
+  DEU: ['申', 'Deut', 'Dt'],
+  JOS: ['書', 'Josh'],
+  JDG: ['士', 'Judg'],
+  RUT: ['得', 'Rt'],
+  '1SA': ['撒上', '1 Sam'],
+  '2SA': ['撒下', '2 Sam'],
+  '1KI': ['王上', '列王記上', '1 Kgs'],
+  '2KI': ['王下', '列王記下', '2 Kgs'],
+  '1CH': ['代上', '歷代誌上', '1 Chr'],
+  '2CH': ['代下', '歷代誌下', '2 Chr'],
+  EZR: ['拉'],
+  NEH: ['尼', 'Neh'],
+  EST: ['斯', 'Esth'],
+  JOB: ['伯'],
+  PSA: ['詩', 'Psalm', 'Ps', 'Psa'],
+  PRO: ['箴', 'Prov', 'Pr'],
+  ECC: ['傳', 'Eccl', 'Qoh'],
+  SNG: ['歌', 'Song of Solomon', 'Song'],
+  ISA: ['賽', 'Isa'],
+  JER: ['耶', 'Jer'],
+  LAM: ['哀', 'Lam'],
+  EZK: ['結', 'Ezek'],
+  DAN: ['但', 'Dan'],
+  HOS: ['何', 'Hos'],
+  JOL: ['珥'],
+  AMO: ['摩'],
+  OBD: ['俄', 'Obad'],
+  JON: ['拿', 'Jon'],
+  MIC: ['彌', 'Mic'],
+  NAH: ['鴻', 'Nah'],
+  HAB: ['哈', 'Hab'],
+  ZEP: ['番', 'Zeph'],
+  HAG: ['該', 'Hag'],
+  ZEC: ['亞', 'Zech'],
+  MAL: ['瑪', 'Mal'],
+  MAT: ['太', 'Matt', 'Mt'],
+  MRK: ['可', 'Mk'],
+  LUK: ['路', 'Lk'],
+  JHN: ['約', 'Jn'],
+  ACT: ['徒'],
+  ROM: ['羅', 'Rom'],
+  '1CO': ['林前', '1 Cor'],
+  '2CO': ['林後', '2 Cor'],
+  GAL: ['加', 'Gal'],
+  EPH: ['弗', 'Eph'],
+  PHP: ['腓', 'Phil'],
+  COL: ['西', 'Col'],
+  '1TH': ['帖前', '1 Thess'],
+  '2TH': ['帖後', '2 Thess'],
+  '1TI': ['提前', '1 Tim'],
+  '2TI': ['提後', '2 Tim'],
+  TIT: ['多', 'Tit'],
+  PHM: ['門', 'Phlm'],
+  HEB: ['來', 'Heb'],
+  JAS: ['雅', 'Jas'],
+  '1PE': ['彼前', '1 Pet'],
+  '2PE': ['彼後', '2 Pet'],
+  '1JO': ['約一', '約壹', '1 Jn'],
+  '2JO': ['約二', '約貳', '2 Jn'],
+  '3JO': ['約三', '約參', '3 Jn'],
+  JUD: ['猶'],
+  REV: ['啟', '啓', 'Rev'],
+};
+
+const nameKey = (name: string) => name.toLowerCase().replace(/[\s.]/g, '');
+
+// Exact lookup table: Chinese full names, abbreviations and English names
+const BOOKS_BY_NAME = new Map<string, BibleBook>();
+const ALL_NAMES: [string, BibleBook][] = [];
+
+for (const book of BIBLE_BOOKS) {
+  const names = [book.name, BOOK_NAMES_EN[book.id], ...(BOOK_NAME_ALIASES[book.id] || [])];
+  for (const name of names) {
+    const key = nameKey(name);
+    if (!BOOKS_BY_NAME.has(key)) BOOKS_BY_NAME.set(key, book);
+    ALL_NAMES.push([key, book]);
+  }
+}
+
+/**
+ * Resolves a book name, abbreviation or USFM code onto a `BIBLE_BOOKS` entry.
+ * Partial names are accepted when they match exactly one book.
+ */
+export const resolveBook = (input: string): BibleBook | null => {
+  const key = nameKey(input);
+  if (!key) return null;
+  const exact = BOOKS_BY_NAME.get(key);
+  if (exact) return exact;
+
+  const id = normalizeBookId(key);
+  if (id) return BIBLE_BOOKS.find(b => b.id === id) ?? null;
+
+  const matches = new Set(ALL_NAMES.filter(([name]) => name.startsWith(key)).map(([, book]) => book));
+  return matches.size === 1 ? [...matches][0] : null;
+};
+
+/** Books whose names or abbreviations match a search query, in canonical order. */
+export const searchBooks = (query: string): BibleBook[] => {
+  const key = nameKey(query);
+  if (!key) return BIBLE_BOOKS;
+  const ref = parseReference(query);
+  return BIBLE_BOOKS.filter(book =>
+    book.id === ref?.bookId
+    || book.name.includes(query.trim())
+    || [book.id, BOOK_NAMES_EN[book.id], ...(BOOK_NAME_ALIASES[book.id] || [])].some(name => nameKey(name).startsWith(key))
+  );
+};
+
+// --- Parsing ---
+
+const normalizeInput = (input: string) =>
+  input
+    .trim()
+    .replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[：︰]/g, ':')
+    .replace(/[－–—～~至]/g, '-')
+    .replace(/[，、]/g, ',')
+    .replace(/第\s*(\d+)\s*[章篇]\s*(?:第\s*)?(\d+)\s*節/g, '$1:$2')
+    .replace(/第?\s*(\d+)\s*[章篇]\s*(\d+)/g, '$1:$2')
+    .replace(/第\s*(\d+)\s*[章篇]|(\d+)\s*[章篇節]/g, (_, a, b) => a ?? b);
+
+// book, chapter, verse, end chapter or verse, end verse
+const REFERENCE_PATTERN = /^([1-3]?\s*[^\d\s:.,-][^\d:,-]*?)[\s.]*(?:(\d+)(?:\s*[:.]\s*(\d+))?(?:\s*-\s*(\d+)(?:\s*[:.]\s*(\d+))?)?)?$/;
+
+/**
+ * Parses references such as `約 3:16`, `創世記 1-2`, `羅 8:28-39`, `John 3:16`
+ * or `JHN.3.16`. Returns null when the book is unknown or the chapters are out
+ * of range. Verse counts are not known until a chapter loads, so verses are
+ * only checked for order here.
+ */
+export const parseReference = (input: string): ScriptureReference | null => {
+  const match = normalizeInput(input).match(REFERENCE_PATTERN);
+  if (!match) return null;
+  const book = resolveBook(match[1]);
+  if (!book) return null;
+
+  const [, , chapterText, verseText, endText, endVerseText] = match;
+  const numbers = [chapterText, verseText, endText, endVerseText].map(n => (n ? parseInt(n, 10) : undefined));
+  let [chapter = 1, verse, endChapter, endVerse] = numbers;
+
+  if (verse === undefined && book.chapters === 1 && chapter > 1) {
+    // `猶 5` and `Jude 3-4` refer to verses of single-chapter books
+    [verse, endVerse, chapter, endChapter] = [chapter, endChapter, 1, undefined];
+  } else if (verse !== undefined && endChapter !== undefined && endVerse === undefined) {
+    // `羅 8:28-39` is a verse range within chapter 8
+    [endVerse, endChapter] = [endChapter, undefined];
+  }
+
+  const ref: ScriptureReference = { bookId: book.id, chapter };
+  if (verse !== undefined) ref.verse = verse;
+  if (endChapter !== undefined && endChapter !== chapter) ref.endChapter = endChapter;
+  if (endVerse !== undefined) ref.endVerse = endVerse;
+  return isValidReference(ref) ? ref : null;
+};
+
+export const isValidReference = (ref: ScriptureReference) => {
+  const book = BIBLE_BOOKS.find(b => b.id === ref.bookId);
+  if (!book) return false;
+  const inRange = (chapter: number) => Number.isInteger(chapter) && chapter >= 1 && chapter <= book.chapters;
+  if (!inRange(ref.chapter)) return false;
+  if (ref.verse !== undefined && ref.verse < 1) return false;
+  if (ref.endChapter !== undefined && (!inRange(ref.endChapter) || ref.endChapter < ref.chapter)) return false;
+  if (ref.endVerse !== undefined) {
+    if (ref.endVerse < 1) return false;
+    if (ref.endChapter === undefined && (ref.verse === undefined || ref.endVerse < ref.verse)) return false;
+  }
+  return true;
+};
+
+export const formatReference = (ref: ScriptureReference) => {
+  const name = BIBLE_BOOKS.find(b => b.id === ref.bookId)?.name ?? ref.bookId;
+  const start = ref.verse ? `${ref.chapter}:${ref.verse}` : `${ref.chapter}`;
+  if (ref.endChapter) return `${name} ${start}-${ref.endChapter}${ref.endVerse ? `:${ref.endVerse}` : ''}`;
+  return `${name} ${start}${ref.endVerse ? `-${ref.endVerse}` : ''}`;
+};
+
+/** First and last verse of a reference within its first chapter, or null for whole chapters. */
+export const toVerseRange = (ref: ScriptureReference): [number, number] | null => {
+  if (!ref.verse) return null;
+  return [ref.verse, ref.endChapter ? Infinity : ref.endVerse ?? ref.verse];
+};
+
+/** Compact list of verse numbers, e.g. `16-18, 20`. */
+export const formatVerseList = (verses: number[]) => {
+  const sorted = [...new Set(verses)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    parts.push(j > i ? `${sorted[i]}-${sorted[j]}` : `${sorted[i]}`);
+    i = j;
+  }
+  return parts.join(', ');
+};
+
+// --- URLs ---
+
+/** `#/JHN/3/16` or `#/ROM/8/28-39`; only the first chapter of a range is shown in the reader. */
+export const referenceToHash = (ref: ScriptureReference) => {
+  const verses = ref.verse ? `/${ref.verse}${ref.endVerse && !ref.endChapter ? `-${ref.endVerse}` : ''}` : '';
+  return `#/${ref.bookId}/${ref.chapter}${verses}`;
+};
+
+export const parseHash = (hash: string): ScriptureReference | null => {
+  const path = decodeURIComponent(hash.replace(/^#\/?/, ''));
+  if (!path) return null;
+  const [book, chapter, verses] = path.split('/');
+  return parseReference(`${book} ${chapter || 1}${verses ? `:${verses}` : ''}`);
+};
@@ -0,0 +1,150 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { BibleBook, ChapterContent, SectionHeading, SpeechChunk, Verse, VerseTiming } from './types';
+
+// Matches a leading verse number such as "16 ", "16. ", "16、" or "【16】"
+const VERSE_LINE = /^\s*(?:【(\d+)】|\[(\d+)\]|(\d+)[\s.、:：]*)\s*(.*)$/;
+
+/**
+ * Sorts verses, merges duplicated verse numbers and drops empty entries so that
+ * every chapter exposes a stable, strictly increasing list of verse numbers.
+ */
+export const normalizeChapter = (
+  book: BibleBook,
+  chapter: number,
+  verses: Verse[],
+  headings: SectionHeading[] = []
+): ChapterContent => {
+  const byNumber = new Map<number, string>();
+  for (const verse of verses) {
+    const number = Math.floor(Number(verse.number));
+    const text = (verse.text || '').replace(/\s+/g, ' ').trim();
+    if (!Number.isFinite(number) || number < 1 || !text) continue;
+    const existing = byNumber.get(number);
+    byNumber.set(number, existing ? `${existing} ${text}` : text);
+  }
+
+  const normalizedVerses = [...byNumber.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([number, text]) => ({ number, text }));
+
+  const verseNumbers = new Set(normalizedVerses.map(v => v.number));
+  const normalizedHeadings = headings
+    .map(h => ({ beforeVerse: Math.floor(Number(h.beforeVerse)), title: (h.title || '').trim() }))
+    .filter(h => h.title && verseNumbers.has(h.beforeVerse))
+    .sort((a, b) => a.beforeVerse - b.beforeVerse);
+
+  return {
+    bookId: book.id,
+    bookName: book.name,
+    chapter,
+    verses: normalizedVerses,
+    headings: normalizedHeadings,
+  };
+};
+
+/**
+ * Parses loosely formatted chapter text ("1 起初神創造天地。" per line). Lines
+ * without a verse number either continue the previous verse or, when they
+ * appear before a verse, become a section heading.
+ */
+export const parseChapterText = (book: BibleBook, chapter: number, raw: string): ChapterContent => {
+  const verses: Verse[] = [];
+  const headings: SectionHeading[] = [];
+  let pendingHeading: string | null = null;
+
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.replace(/^#+\s*/, '').trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(VERSE_LINE);
+    const number = match ? Number(match[1] || match[2] || match[3]) : NaN;
+    if (match && Number.isFinite(number) && match[4]) {
+      if (pendingHeading) {
+        headings.push({ beforeVerse: number, title: pendingHeading });
+        pendingHeading = null;
+      }
+      verses.push({ number, text: match[4] });
+    } else if (/^#/.test(line.trim()) || verses.length === 0) {
+      pendingHeading = trimmed;
+    } else {
+      verses[verses.length - 1].text += trimmed;
+    }
+  }
+
+  return normalizeChapter(book, chapter, verses, headings);
+};
+
+/** Returns the chapter `delta` steps away, crossing book boundaries in canonical order. */
+export const getAdjacentChapter = (bookId: string, chapter: number, delta: 1 | -1) => {
+  const index = BIBLE_BOOKS.findIndex(b => b.id === bookId);
+  if (index === -1) return null;
+  const book = BIBLE_BOOKS[index];
+  const target = chapter + delta;
+  if (target >= 1 && target <= book.chapters) return { book, chapter: target };
+  const adjacent = BIBLE_BOOKS[index + delta];
+  if (!adjacent) return null;
+  return { book: adjacent, chapter: delta > 0 ? 1 : adjacent.chapters };
+};
+
+export const getHeadingBefore = (content: ChapterContent, verseNumber: number) =>
+  content.headings.find(h => h.beforeVerse === verseNumber);
+
+/** Joins the verses into a single passage suitable for narration. */
+export const chapterToPlainText = (content: ChapterContent) =>
+  content.verses.map(v => v.text).join('\n');
+
+// 每段朗讀的字數上限：第一段較短以便盡快開始播放
+const FIRST_CHUNK_CHARS = 150;
+const CHUNK_CHARS = 600;
+
+/**
+ * Splits a chapter into narration chunks on verse boundaries. Section headings
+ * always start a new chunk so that paragraphs are read as a unit. An `intro`
+ * is spoken at the start of the first chunk.
+ */
+export const splitIntoSpeechChunks = (content: ChapterContent, intro?: string): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+  let verses: Verse[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (verses.length === 0) return;
+    chunks.push({ index: chunks.length, verses, text: verses.map(v => v.text).join('\n') });
+    verses = [];
+    length = 0;
+  };
+
+  for (const verse of content.verses) {
+    const limit = chunks.length === 0 ? FIRST_CHUNK_CHARS : CHUNK_CHARS;
+    const startsSection = !!getHeadingBefore(content, verse.number);
+    if (verses.length > 0 && (startsSection || length + verse.text.length > limit)) flush();
+    verses.push(verse);
+    length += verse.text.length;
+  }
+  flush();
+  if (intro && chunks[0]) chunks[0] = { ...chunks[0], intro, text: `${intro}\n${chunks[0].text}` };
+  return chunks;
+};
+
+// 估算節與節之間停頓所佔的字數權重
+const VERSE_PAUSE_WEIGHT = 4;
+
+/**
+ * The TTS model returns no word timings, so verse boundaries inside a chunk are
+ * estimated proportionally to each verse's length.
+ */
+export const estimateVerseTimings = (chunk: SpeechChunk, segmentStart: number, segmentDuration: number): VerseTiming[] => {
+  const weights = chunk.verses.map(v => v.text.length + VERSE_PAUSE_WEIGHT);
+  const introWeight = chunk.intro ? chunk.intro.length + VERSE_PAUSE_WEIGHT : 0;
+  const total = weights.reduce((sum, w) => sum + w, introWeight) || 1;
+  let cursor = segmentStart + (introWeight / total) * segmentDuration;
+  return chunk.verses.map((verse, i) => {
+    const start = cursor;
+    cursor += (weights[i] / total) * segmentDuration;
+    return { verse: verse.number, start, end: cursor };
+  });
+};
+
+export const findVerseAt = (timings: VerseTiming[], position: number) =>
+  timings.find(t => position >= t.start && position < t.end)?.verse ?? null;
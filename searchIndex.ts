@@ -0,0 +1,173 @@
+
+import { BIBLE_BOOKS } from './constants';
+import { ImportedChapter, SearchFilter, SearchResponse, SearchResult } from './types';
+
+interface IndexedVerse {
+  bookId: string;
+  chapter: number;
+  verse: number;
+  text: string;
+  normalized: string; // Lower-cased text used for matching; same length as `text`
+}
+
+export interface SearchIndex {
+  verses: IndexedVerse[]; // Canonical order, so postings lists are sorted
+  postings: Map<string, number[]>; // Character or character bigram -> verse positions
+  chapterCount: number;
+}
+
+export const SEARCH_RESULT_LIMIT = 200;
+const SNIPPET_CHARS = 80;
+const SNIPPET_LEAD = 24; // Characters kept before the first match when a verse is shortened
+
+// 中文沒有空格分詞，因此以單字與相鄰兩字（bigram）建立索引
+const isIndexable = (char: string) => /[\p{L}\p{N}]/u.test(char);
+
+const normalizeText = (text: string) => text.toLowerCase();
+
+/** Single characters and bigrams of adjacent letters or digits; punctuation and spaces split runs. */
+const tokenize = (text: string) => {
+  const chars = Array.from(text);
+  const unigrams = new Set<string>();
+  const bigrams = new Set<string>();
+  chars.forEach((char, i) => {
+    if (!isIndexable(char)) return;
+    unigrams.add(char);
+    const next = chars[i + 1];
+    if (next && isIndexable(next)) bigrams.add(char + next);
+  });
+  return { unigrams, bigrams };
+};
+
+export const buildSearchIndex = (chapters: ImportedChapter[]): SearchIndex => {
+  const bookOrder = new Map(BIBLE_BOOKS.map((b, i) => [b.id, i]));
+  const sorted = chapters
+    .filter(c => bookOrder.has(c.bookId))
+    .sort((a, b) => bookOrder.get(a.bookId)! - bookOrder.get(b.bookId)! || a.chapter - b.chapter);
+
+  const verses: IndexedVerse[] = [];
+  const postings = new Map<string, number[]>();
+  for (const chapter of sorted) {
+    for (const verse of [...chapter.verses].sort((a, b) => a.number - b.number)) {
+      const position = verses.length;
+      const normalized = normalizeText(verse.text);
+      verses.push({ bookId: chapter.bookId, chapter: chapter.chapter, verse: verse.number, text: verse.text, normalized });
+      const { unigrams, bigrams } = tokenize(normalized);
+      for (const token of [...unigrams, ...bigrams]) {
+        let list = postings.get(token);
+        if (!list) postings.set(token, (list = []));
+        list.push(position);
+      }
+    }
+  }
+  return { verses, postings, chapterCount: sorted.length };
+};
+
+// --- Querying ---
+
+/**
+ * Splits a query into terms that must all appear in a verse. Quoted text
+ * (`"..."`, `「...」` or `“...”`) is kept as one phrase including its spaces;
+ * other words are matched independently.
+ */
+export const parseSearchQuery = (query: string) => {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|「([^」]+)」|“([^”]+)”|(\S+)/g)) {
+    const term = normalizeText((match[1] ?? match[2] ?? match[3] ?? match[4]).trim());
+    if (Array.from(term).some(isIndexable)) terms.push(term);
+  }
+  return terms;
+};
+
+const intersect = (a: number[], b: number[]) => {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+/** Verses that contain every token of the term; still needs an exact substring check. */
+const candidatesFor = (index: SearchIndex, term: string) => {
+  const { unigrams, bigrams } = tokenize(term);
+  const tokens = bigrams.size > 0 ? [...bigrams] : [...unigrams];
+  const lists = tokens.map(token => index.postings.get(token) || []);
+  if (lists.some(list => list.length === 0)) return [];
+  lists.sort((a, b) => a.length - b.length);
+  return lists.slice(1).reduce(intersect, lists[0]);
+};
+
+const buildSnippet = (verse: IndexedVerse, terms: string[]): SearchResult['snippet'] => {
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let at = verse.normalized.indexOf(term); at !== -1; at = verse.normalized.indexOf(term, at + term.length)) {
+      ranges.push([at, at + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+
+  // Long verses are shortened around the first match
+  const { text } = verse;
+  const start = text.length > SNIPPET_CHARS ? Math.max(0, Math.min((merged[0]?.[0] ?? 0) - SNIPPET_LEAD, text.length - SNIPPET_CHARS)) : 0;
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  const snippet: SearchResult['snippet'] = [];
+  const push = (from: number, to: number, match: boolean) => {
+    if (to > from) snippet.push({ text: text.slice(from, to), match });
+  };
+  let cursor = start;
+  for (const [from, to] of merged) {
+    if (to <= start || from >= end) continue;
+    push(cursor, Math.max(cursor, from), false);
+    push(Math.max(cursor, from), Math.min(to, end), true);
+    cursor = Math.min(to, end);
+  }
+  push(cursor, end, false);
+  if (start > 0) snippet.unshift({ text: '…', match: false });
+  if (end < text.length) snippet.push({ text: '…', match: false });
+  return snippet;
+};
+
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  filter: SearchFilter = {},
+  limit: number = SEARCH_RESULT_LIMIT
+): SearchResponse => {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return { results: [], total: 0, indexedChapters: index.chapterCount };
+
+  const testamentBooks = filter.testament
+    ? new Set(BIBLE_BOOKS.filter(b => b.testament === filter.testament).map(b => b.id))
+    : null;
+  const positions = terms.map(term => candidatesFor(index, term)).reduce(intersect);
+
+  const results: SearchResult[] = [];
+  let total = 0;
+  for (const position of positions) {
+    const verse = index.verses[position];
+    if (filter.bookId && verse.bookId !== filter.bookId) continue;
+    if (testamentBooks && !testamentBooks.has(verse.bookId)) continue;
+    if (!terms.every(term => verse.normalized.includes(term))) continue;
+    total++;
+    if (results.length < limit) {
+      results.push({ bookId: verse.bookId, chapter: verse.chapter, verse: verse.verse, snippet: buildSnippet(verse, terms) });
+    }
+  }
+  return { results, total, indexedChapters: index.chapterCount };
+};
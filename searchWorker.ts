@@ -0,0 +1,61 @@
+
+import { ChapterContent, ImportedChapter, SearchFilter, SearchResponse } from './types';
+import { idbGetAll, idbKeys, STORES } from './idb';
+import { buildSearchIndex, searchIndex, SearchIndex } from './searchIndex';
+
+export type SearchWorkerRequest =
+  | { type: 'search'; id: number; query: string; translation: string; filter: SearchFilter }
+  | { type: 'invalidate' };
+
+export type SearchWorkerResponse =
+  | { type: 'results'; id: number; response: SearchResponse }
+  | { type: 'error'; id: number; message: string };
+
+interface BuiltIndex {
+  index: SearchIndex;
+  storedChapters: number; // Rebuilt when chapters are imported, downloaded or cached
+}
+
+const indexes = new Map<string, Promise<BuiltIndex>>();
+
+const countStoredChapters = async (translation: string) =>
+  (await idbKeys(STORES.bibleChapters, `${translation}:`)).length
+  + (await idbKeys(STORES.chapterCache, `${translation}:`)).length;
+
+/** Imported text takes precedence over chapters cached from a remote provider. */
+const loadChapters = async (translation: string): Promise<ImportedChapter[]> => {
+  const local = await idbGetAll<ImportedChapter>(STORES.bibleChapters, `${translation}:`);
+  const cached = await idbGetAll<ChapterContent>(STORES.chapterCache, `${translation}:`);
+  const seen = new Set(local.map(c => `${c.bookId}:${c.chapter}`));
+  const remote = cached
+    .filter(c => !seen.has(`${c.bookId}:${c.chapter}`))
+    .map(({ bookId, chapter, verses, headings }) => ({ bookId, chapter, verses, headings }));
+  return [...local, ...remote];
+};
+
+const getIndex = async (translation: string) => {
+  const storedChapters = await countStoredChapters(translation);
+  const existing = indexes.get(translation);
+  if (existing && (await existing).storedChapters === storedChapters) return (await existing).index;
+
+  const building = loadChapters(translation).then(chapters => ({ index: buildSearchIndex(chapters), storedChapters }));
+  indexes.set(translation, building);
+  building.catch(() => indexes.delete(translation));
+  return (await building).index;
+};
+
+const respond = (message: SearchWorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'invalidate') {
+    indexes.clear();
+    return;
+  }
+  try {
+    const index = await getIndex(request.translation);
+    respond({ type: 'results', id: request.id, response: searchIndex(index, request.query, request.filter) });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
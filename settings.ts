@@ -0,0 +1,118 @@
+
+import { PLAYBACK_RATES } from './audioPlayer';
+import { isValidActivePlan } from './readingPlans';
+import { isTranslationId } from './translations';
+import { DEFAULT_TTS_SETTINGS, isValidTtsSettings } from './narration';
+import { DEFAULT_APPEARANCE, isValidAppearance } from './appearance';
+import { DEFAULT_TRANSLATION } from './constants';
+import { ActivePlan, AppearanceSettings, TtsEngineId, TtsSettings } from './types';
+
+// 使用者偏好設定在 localStorage 中的鍵名
+export const SETTING_KEYS = {
+  fontSize: 'bible-font-size',
+  appearance: 'bible-appearance',
+  playbackRate: 'bible-playback-rate',
+  continuousPlay: 'bible-continuous-play',
+  plan: 'bible-plan',
+  translation: 'bible-translation',
+  parallelTranslation: 'bible-parallel-translation',
+  tts: 'bible-tts',
+  ttsEngine: 'bible-tts-engine',
+} as const;
+
+const SETTINGS_UPDATED_KEY = 'bible-settings-updated-at';
+
+export interface AppSettings {
+  fontSize: number; // px
+  appearance: AppearanceSettings; // Theme, typography and layout of the reader
+  playbackRate: number;
+  continuousPlay: boolean;
+  plan: ActivePlan | null;
+  translation: string;
+  parallelTranslation: string | null; // Second column of the parallel view, null when off
+  tts: TtsSettings;
+  ttsEngine: TtsEngineId; // Preferred engine; another one is used when it is unavailable
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  fontSize: 20,
+  appearance: DEFAULT_APPEARANCE,
+  playbackRate: 1,
+  continuousPlay: false,
+  plan: null,
+  translation: DEFAULT_TRANSLATION,
+  parallelTranslation: null,
+  tts: DEFAULT_TTS_SETTINGS,
+  ttsEngine: 'gemini',
+};
+
+export const FONT_SIZE_RANGE = { min: 14, max: 48 };
+
+type RawSettings = { [K in keyof AppSettings]?: string | null };
+
+const parseJson = (value: string | null | undefined) => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Turns raw stored strings into settings, falling back to defaults for invalid values. */
+export const parseSettings = (raw: RawSettings): AppSettings => {
+  const fontSize = parseInt(raw.fontSize || '', 10);
+  const playbackRate = parseFloat(raw.playbackRate || '');
+  const plan = parseJson(raw.plan);
+  const tts = parseJson(raw.tts);
+  const appearance = parseJson(raw.appearance);
+  return {
+    fontSize: fontSize >= FONT_SIZE_RANGE.min && fontSize <= FONT_SIZE_RANGE.max ? fontSize : DEFAULT_SETTINGS.fontSize,
+    appearance: isValidAppearance(appearance) ? appearance : DEFAULT_SETTINGS.appearance,
+    playbackRate: PLAYBACK_RATES.includes(playbackRate) ? playbackRate : DEFAULT_SETTINGS.playbackRate,
+    continuousPlay: raw.continuousPlay === 'true',
+    plan: isValidActivePlan(plan) ? plan : null,
+    translation: isTranslationId(raw.translation) ? raw.translation : DEFAULT_SETTINGS.translation,
+    parallelTranslation: isTranslationId(raw.parallelTranslation) ? raw.parallelTranslation : null,
+    tts: isValidTtsSettings(tts) ? tts : DEFAULT_SETTINGS.tts,
+    ttsEngine: raw.ttsEngine === 'browser' ? 'browser' : DEFAULT_SETTINGS.ttsEngine,
+  };
+};
+
+export const serializeSettings = (settings: AppSettings): Record<keyof AppSettings, string | null> => ({
+  fontSize: settings.fontSize.toString(),
+  appearance: JSON.stringify(settings.appearance),
+  playbackRate: settings.playbackRate.toString(),
+  continuousPlay: settings.continuousPlay.toString(),
+  plan: settings.plan ? JSON.stringify(settings.plan) : null,
+  translation: settings.translation,
+  parallelTranslation: settings.parallelTranslation,
+  tts: JSON.stringify(settings.tts),
+  ttsEngine: settings.ttsEngine,
+});
+
+export const loadSettings = (): AppSettings => {
+  const raw: RawSettings = {};
+  for (const [name, key] of Object.entries(SETTING_KEYS) as [keyof AppSettings, string][]) {
+    raw[name] = localStorage.getItem(key);
+  }
+  return parseSettings(raw);
+};
+
+/**
+ * Persists settings and records the time of the last real change (used when
+ * merging backups). Writing the defaults on a fresh device is not a change, so
+ * a backup's settings still win there.
+ */
+export const saveSettings = (settings: AppSettings, updatedAt: string = new Date().toISOString()) => {
+  const previous = serializeSettings(loadSettings());
+  let changed = false;
+  for (const [name, value] of Object.entries(serializeSettings(settings)) as [keyof AppSettings, string | null][]) {
+    const key = SETTING_KEYS[name];
+    if (previous[name] !== value) changed = true;
+    if (localStorage.getItem(key) === value) continue;
+    if (value === null) localStorage.removeItem(key); else localStorage.setItem(key, value);
+  }
+  if (changed) localStorage.setItem(SETTINGS_UPDATED_KEY, updatedAt);
+};
+
+export const getSettingsUpdatedAt = () => localStorage.getItem(SETTINGS_UPDATED_KEY);
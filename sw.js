@@ -1,11 +1,20 @@
-
-const CACHE_NAME = 'grace-bible-v1';
+const CACHE_NAME = 'grace-bible-v2';
+const RUNTIME_CACHE = 'grace-bible-runtime-v2';
 const ASSETS = [
   '/',
   '/index.html',
   '/manifest.json'
 ];
 
+// 第三方資源（Tailwind、字型、esm.sh 模組）也需快取，否則離線時畫面無法載入
+const CACHEABLE_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'esm.sh',
+  'cdn-icons-png.flaticon.com'
+];
+
 // 安裝 Service Worker
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -13,6 +22,7 @@ self.addEventListener('install', (event) => {
       return cache.addAll(ASSETS);
     })
   );
+  self.skipWaiting();
 });
 
 // 激活並清理舊快取
@@ -20,17 +30,54 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((keys) => {
       return Promise.all(
-        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+        keys.filter((key) => key !== CACHE_NAME && key !== RUNTIME_CACHE).map((key) => caches.delete(key))
       );
-    })
+    }).then(() => self.clients.claim())
   );
 });
 
-// 攔截請求（確保基本運行）
+const putInRuntimeCache = (request, response) => {
+  if (response && (response.ok || response.type === 'opaque')) {
+    const copy = response.clone();
+    caches.open(RUNTIME_CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// 頁面導覽：網路優先，離線時回退至快取的 index.html
+const handleNavigation = (request) =>
+  fetch(request)
+    .then((response) => putInRuntimeCache(request, response))
+    .catch(() => caches.match(request).then((cached) => cached || caches.match('/index.html')));
+
+// 經文檔（/bibles/*.json）：快取優先，內容固定不變
+const handleBibleFile = (request) =>
+  caches.match(request).then((cached) => cached || fetch(request).then((response) => putInRuntimeCache(request, response)));
+
+// 其他靜態資源：先回傳快取，同時在背景更新
+const handleAsset = (request) =>
+  caches.match(request).then((cached) => {
+    const network = fetch(request)
+      .then((response) => putInRuntimeCache(request, response))
+      .catch(() => cached);
+    return cached || network;
+  });
+
+// 攔截請求。經文與朗讀音訊快取存放於 IndexedDB，由應用程式直接讀取，
+// Gemini API（POST）請求則一律直接送出。
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
-    })
-  );
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (sameOrigin && url.pathname.startsWith('/@')) return; // Vite 開發伺服器內部模組
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (sameOrigin && url.pathname.startsWith('/bibles/')) {
+    event.respondWith(handleBibleFile(request));
+  } else if (sameOrigin || CACHEABLE_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleAsset(request));
+  }
 });
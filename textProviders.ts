@@ -0,0 +1,142 @@
+
+import { DEFAULT_TRANSLATION } from './constants';
+import { BibleBook, ChapterContent, ImportedChapter, TextProvider } from './types';
+import { idbGet, idbKeys, idbPut, idbPutMany, STORES } from './idb';
+import { normalizeChapter } from './scripture';
+import { parseBibleFile } from './bibleImport';
+import { fetchChapterTextFromGemini } from './geminiService';
+import { cacheChapter, chapterCacheKey, getCachedChapter } from './offlineCache';
+import { GeminiError } from './geminiErrors';
+
+export interface InstalledBible {
+  translation: string;
+  importedAt: string;
+  chapterCount: number;
+}
+
+const localChapterKey = (translation: string, bookId: string, chapter: number) =>
+  `${translation}:${bookId}:${chapter}`;
+
+/** Stores parsed chapters locally so the local provider can serve them offline. */
+export const installBible = async (translation: string, chapters: ImportedChapter[]) => {
+  await idbPutMany(
+    STORES.bibleChapters,
+    chapters.map(c => [localChapterKey(translation, c.bookId, c.chapter), c] as [string, ImportedChapter])
+  );
+  // Re-imported chapters replace the stored ones, so count what is stored rather than adding up imports
+  const stored = await idbKeys(STORES.bibleChapters, `${translation}:`);
+  await idbPut<InstalledBible>(STORES.bibles, translation, {
+    translation,
+    importedAt: new Date().toISOString(),
+    chapterCount: stored.length,
+  });
+  return chapters.length;
+};
+
+/** Imports USFM or JSON Bible files chosen by the user. Returns the number of chapters imported. */
+export const importBibleFiles = async (files: File[], translation: string = DEFAULT_TRANSLATION) => {
+  let imported = 0;
+  for (const file of files) {
+    const chapters = parseBibleFile(file.name, await file.text());
+    imported += await installBible(translation, chapters);
+  }
+  return imported;
+};
+
+// 打包於 public/bibles/<translation>.json 的經文檔，首次使用時匯入 IndexedDB
+const bundleLoads = new Map<string, Promise<boolean>>();
+
+const loadBundledBible = (translation: string) => {
+  let pending = bundleLoads.get(translation);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const response = await fetch(`/bibles/${translation}.json`);
+        if (!response.ok || !(response.headers.get('content-type') || '').includes('json')) return false;
+        const chapters = parseBibleFile(`${translation}.json`, await response.text());
+        return (await installBible(translation, chapters)) > 0;
+      } catch (error) {
+        console.warn('Bundled Bible unavailable:', error);
+        return false;
+      }
+    })();
+    bundleLoads.set(translation, pending);
+  }
+  return pending;
+};
+
+export const localTextProvider: TextProvider = {
+  id: 'local',
+  label: '本機經文',
+  getChapter: async (book, chapter, translation) => {
+    const key = localChapterKey(translation, book.id, chapter);
+    let stored = await idbGet<ImportedChapter>(STORES.bibleChapters, key);
+    if (!stored) {
+      const installed = await idbGet<InstalledBible>(STORES.bibles, translation);
+      if (!installed && await loadBundledBible(translation)) {
+        stored = await idbGet<ImportedChapter>(STORES.bibleChapters, key);
+      }
+    }
+    if (!stored) return null;
+    return { ...normalizeChapter(book, chapter, stored.verses, stored.headings), source: 'local' };
+  },
+};
+
+export const geminiTextProvider: TextProvider = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  isGenerated: true,
+  getChapter: async (book, chapter, translation, signal) => ({
+    ...(await fetchChapterTextFromGemini(book, chapter, translation, signal)),
+    source: 'gemini',
+  }),
+};
+
+// Providers are consulted in order; the first one returning verses wins.
+let providers: TextProvider[] = [localTextProvider, geminiTextProvider];
+
+export const getTextProviders = () => providers;
+
+export const setTextProviders = (next: TextProvider[]) => {
+  providers = next;
+};
+
+export const isGeneratedText = (content: ChapterContent) =>
+  providers.some(p => p.id === content.source && p.isGenerated);
+
+/**
+ * Returns the chapter from the first provider that has it. Rejects with the
+ * last provider's error, e.g. a `GeminiError` when nothing is stored locally.
+ */
+export const fetchChapterText = async (
+  book: BibleBook,
+  chapter: number,
+  translation: string = DEFAULT_TRANSLATION,
+  signal?: AbortSignal
+): Promise<ChapterContent> => {
+  const cacheKey = chapterCacheKey(translation, book.id, chapter);
+  let lastError: unknown = null;
+  let checkedCache = false;
+
+  for (const provider of providers) {
+    // Local text is already stored on the device; the offline cache only fronts remote providers.
+    const isRemote = provider.id !== localTextProvider.id;
+    try {
+      if (isRemote && !checkedCache) {
+        checkedCache = true;
+        const cached = await getCachedChapter(cacheKey);
+        if (cached) return cached;
+      }
+      const content = await provider.getChapter(book, chapter, translation, signal);
+      if (content && content.verses.length > 0) {
+        if (isRemote) await cacheChapter(cacheKey, content);
+        return content;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new GeminiError('cancelled', { cause: error });
+      console.warn(`Text provider "${provider.id}" failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error('CHAPTER_NOT_FOUND');
+};
@@ -0,0 +1,14 @@
+
+import { BIBLE_BOOKS, BOOK_NAMES_EN, DEFAULT_TRANSLATION, TRANSLATIONS } from './constants';
+import { Translation } from './types';
+
+export const isTranslationId = (id: unknown): id is string => TRANSLATIONS.some(t => t.id === id);
+
+export const getTranslation = (id: string): Translation =>
+  TRANSLATIONS.find(t => t.id === id) ?? TRANSLATIONS.find(t => t.id === DEFAULT_TRANSLATION)!;
+
+/** Book name in the language of a translation; `BIBLE_BOOKS` names are Chinese. */
+export const localizedBookName = (bookId: string, translation: string = DEFAULT_TRANSLATION) => {
+  if (getTranslation(translation).language === 'en' && BOOK_NAMES_EN[bookId]) return BOOK_NAMES_EN[bookId];
+  return BIBLE_BOOKS.find(b => b.id === bookId)?.name ?? bookId;
+};
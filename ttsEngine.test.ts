@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadWithFallback, SpeechRequest, TtsEngine } from './ttsEngine';
+import { TtsEngineId } from './types';
+
+const mockEngine = (id: TtsEngineId, options: { fails?: string; available?: boolean } = {}) => ({
+  id,
+  player: {} as TtsEngine['player'],
+  isAvailable: () => options.available ?? true,
+  load: vi.fn(async () => {
+    if (options.fails) throw new Error(options.fails);
+    return { remaining: [] };
+  }),
+}) satisfies TtsEngine;
+
+const request = (isCancelled = () => false): SpeechRequest => ({
+  chunks: [],
+  speech: { voice: 'Kore', style: 'calm', language: 'mandarin' },
+  cacheKey: 'audio:key',
+  isCancelled,
+  onTimings: () => {},
+  onReady: () => {},
+});
+
+describe('loadWithFallback', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads with the preferred engine when it succeeds', async () => {
+    const gemini = mockEngine('gemini');
+    const browser = mockEngine('browser');
+    const result = await loadWithFallback([gemini, browser], 'gemini', () => request());
+    expect(result).toEqual({ engine: gemini, preferredError: null, remaining: [] });
+    expect(browser.load).not.toHaveBeenCalled();
+  });
+
+  it('falls back when the preferred engine fails, reporting why', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const gemini = mockEngine('gemini', { fails: 'QUOTA' });
+    const browser = mockEngine('browser');
+    const prepared: TtsEngineId[] = [];
+    const result = await loadWithFallback([gemini, browser], 'gemini', (engine) => {
+      prepared.push(engine.id);
+      return request();
+    });
+    expect(result.engine).toBe(browser);
+    expect((result.preferredError as Error).message).toBe('QUOTA');
+    expect(prepared).toEqual(['gemini', 'browser']);
+  });
+
+  it('rejects with the last error when every engine fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const engines = [mockEngine('gemini', { fails: 'FIRST' }), mockEngine('browser', { fails: 'LAST' })];
+    await expect(loadWithFallback(engines, 'gemini', () => request())).rejects.toThrow('LAST');
+  });
+
+  it('starts with the first available engine when the preferred one cannot run', async () => {
+    const gemini = mockEngine('gemini', { available: false });
+    const browser = mockEngine('browser');
+    const result = await loadWithFallback([gemini, browser], 'gemini', () => request());
+    expect(result).toMatchObject({ engine: browser, preferredError: null });
+    expect(gemini.load).not.toHaveBeenCalled();
+  });
+
+  it('stops without falling back once the request is cancelled', async () => {
+    const gemini = mockEngine('gemini', { fails: 'ABORTED' });
+    const browser = mockEngine('browser');
+    await expect(loadWithFallback([gemini, browser], 'gemini', () => request(() => true))).rejects.toThrow('ABORTED');
+    expect(browser.load).not.toHaveBeenCalled();
+  });
+
+  it('rejects when no engine can run', async () => {
+    await expect(loadWithFallback([mockEngine('gemini', { available: false })], 'gemini', () => request()))
+      .rejects.toThrow('TTS_UNAVAILABLE');
+  });
+});
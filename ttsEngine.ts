@@ -0,0 +1,151 @@
+
+import { SpeechChunk, SpeechOptions, TtsEngineId, VerseTiming } from './types';
+import { ChapterAudioPlayer } from './audioPlayer';
+import { decodeAudioData, decodeBase64, streamSpeechChunks } from './geminiService';
+import { estimateVerseTimings } from './scripture';
+
+/** Playback controls shared by every engine; positions are seconds on the chapter timeline. */
+export interface NarrationPlayer {
+  onEnded: (() => void) | null;
+  readonly isLoaded: boolean;
+  readonly isPlaying: boolean;
+  readonly isBuffering: boolean;
+  readonly duration: number;
+  readonly position: number;
+  play(from?: number): void;
+  pause(): void;
+  seek(time: number): void;
+  setPlaybackRate(rate: number): void;
+  fadeOut(seconds: number): Promise<void>;
+  restoreVolume(): void;
+  unload(): void;
+}
+
+export interface SpeechRequest {
+  chunks: SpeechChunk[];
+  speech: SpeechOptions;
+  cacheKey: string; // Audio cache key of the chapter
+  signal?: AbortSignal; // Aborted when playback stops or the chapter changes
+  append?: boolean; // Add the chunks after the audio already loaded instead of replacing it
+  isCancelled: () => boolean;
+  onTimings: (timings: VerseTiming[]) => void; // Verse positions, reported as each chunk is loaded
+  onReady: () => void; // The first chunk can be played
+}
+
+export interface LoadResult {
+  remaining: SpeechChunk[]; // Chunks left out when synthesis stopped partway; empty when the whole request loaded
+}
+
+export interface TtsEngine {
+  readonly id: TtsEngineId;
+  readonly player: NarrationPlayer;
+  /** False when the engine cannot run here, e.g. without an API key or browser support. */
+  isAvailable(): boolean;
+  /**
+   * Loads the chunks into `player`. Rejects only if nothing could be loaded;
+   * a failure after the first chunk keeps the loaded part playable and
+   * resolves with the chunks that are missing.
+   */
+  load(request: SpeechRequest): Promise<LoadResult>;
+}
+
+export const TTS_ENGINE_LABELS: Record<TtsEngineId, string> = {
+  gemini: 'Gemini AI 語音',
+  browser: '瀏覽器內建語音',
+};
+
+/** The preferred engine if it can run, otherwise the first available one. */
+export const selectTtsEngine = (engines: TtsEngine[], preferred: TtsEngineId) =>
+  engines.find(e => e.id === preferred && e.isAvailable()) ?? engines.find(e => e.isAvailable()) ?? null;
+
+/** Fallbacks to try, in order, after `failed` could not load anything. */
+const fallbackEngines = (engines: TtsEngine[], failed: TtsEngine) =>
+  engines.filter(e => e !== failed && e.isAvailable());
+
+/**
+ * Loads with the engine `selectTtsEngine` picks, moving on to the other
+ * available engines while one cannot load anything. `request` is called
+ * before each attempt so the caller can set up that engine's player.
+ * `preferredError` is why the first engine failed, or null if it loaded;
+ * `remaining` is what the engine that loaded left out.
+ * Rejects with the last error when every engine fails, or as soon as the
+ * request is cancelled.
+ */
+export const loadWithFallback = async (
+  engines: TtsEngine[],
+  preferredId: TtsEngineId,
+  request: (engine: TtsEngine) => SpeechRequest,
+): Promise<LoadResult & { engine: TtsEngine; preferredError: unknown }> => {
+  const preferred = selectTtsEngine(engines, preferredId);
+  if (!preferred) throw new Error('TTS_UNAVAILABLE');
+  let preferredError: unknown = null;
+  let lastError: unknown = null;
+  for (const engine of [preferred, ...fallbackEngines(engines, preferred)]) {
+    const engineRequest = request(engine);
+    try {
+      const { remaining } = await engine.load(engineRequest);
+      return { engine, preferredError, remaining };
+    } catch (error) {
+      if (engineRequest.isCancelled()) throw error;
+      console.error(`TTS error (${engine.id}):`, error);
+      lastError = error;
+      if (engine === preferred) preferredError = error;
+    }
+  }
+  throw lastError;
+};
+
+// --- Gemini ---
+
+/** Streams Gemini TTS chunks into a gapless AudioContext player. */
+export class GeminiTtsEngine implements TtsEngine {
+  readonly id = 'gemini';
+  private ctx: AudioContext | null = null;
+  private audioPlayer: ChapterAudioPlayer | null = null;
+
+  // The AudioContext is created on first use so it starts from a user gesture
+  get player(): ChapterAudioPlayer {
+    if (!this.ctx) {
+      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    }
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+    if (!this.audioPlayer) this.audioPlayer = new ChapterAudioPlayer(this.ctx);
+    return this.audioPlayer;
+  }
+
+  // Offline, cached audio still plays; uncached chunks fail and trigger the fallback
+  isAvailable() {
+    return !!process.env.API_KEY;
+  }
+
+  async load({ chunks, speech, cacheKey, signal, append, isCancelled, onTimings, onReady }: SpeechRequest) {
+    const player = this.player;
+    if (append) player.extendLoading(chunks.length);
+    else player.reset(chunks.length);
+    let loaded = 0;
+    try {
+      await streamSpeechChunks(chunks, {
+        speech,
+        chapterCacheKey: cacheKey,
+        signal,
+        isCancelled,
+        onChunk: async (chunk, audio) => {
+          const buffer = await decodeAudioData(decodeBase64(audio.data), this.ctx!, audio.sampleRate, audio.channels);
+          if (isCancelled()) return;
+          const timings = estimateVerseTimings(chunk, player.duration, buffer.duration);
+          player.appendSegment(buffer);
+          loaded++;
+          onTimings(timings);
+          if (chunk === chunks[0]) onReady();
+        },
+      });
+    } catch (error) {
+      if (isCancelled()) throw error;
+      // Keep what was synthesized so far playable
+      player.finishLoading();
+      if (loaded === 0) throw error;
+      console.error("Chunked TTS error:", error);
+    }
+    return { remaining: chunks.slice(loaded) };
+  }
+}
@@ -6,16 +6,226 @@ export interface BibleBook {
   testament: 'Old' | 'New';
 }
 
+export type TranslationLanguage = 'zh' | 'en';
+
+export interface Translation {
+  id: string; // Used in storage and cache keys
+  name: string;
+  shortName: string; // Column headers in the parallel view
+  language: TranslationLanguage;
+  promptName: string; // How the translation is named when asking Gemini for text
+}
+
+export type CompletionSource = 'read' | 'listen';
+
+export interface ChapterCompletion {
+  completedAt: string | null; // ISO timestamp; null for chapters migrated from the legacy format
+  via: CompletionSource;
+}
+
 export interface ReadingProgress {
-  [bookId: string]: number[]; // Array of completed chapter numbers
+  [bookId: string]: { [chapter: number]: ChapterCompletion };
+}
+
+export interface ListeningStats {
+  totalSeconds: number;
+  byDate: { [date: string]: number }; // Seconds listened per YYYY-MM-DD
+}
+
+export interface Verse {
+  number: number;
+  text: string;
+}
+
+export interface SectionHeading {
+  beforeVerse: number; // Heading is rendered directly above this verse
+  title: string;
+}
+
+export interface ChapterRef {
+  bookId: string;
+  chapter: number;
+}
+
+export interface ScriptureReference {
+  bookId: string;
+  chapter: number;
+  verse?: number;
+  endChapter?: number; // Only for ranges spanning chapters
+  endVerse?: number;
+}
+
+export interface ReadingPlan {
+  id: string;
+  name: string;
+  description: string;
+  days: ChapterRef[][]; // Chapters to read on each day of the plan
+}
+
+export interface CustomPlanConfig {
+  fromBookId: string;
+  toBookId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ActivePlan {
+  planId: string; // Built-in plan id, or 'custom'
+  startDate: string; // YYYY-MM-DD of day 1; moved forward when missed days are rescheduled
+  custom?: CustomPlanConfig;
 }
 
 export interface ChapterContent {
+  bookId: string;
   bookName: string;
   chapter: number;
-  content: string;
+  verses: Verse[];
+  headings: SectionHeading[];
+  source?: string; // Id of the TextProvider that supplied the text
 }
 
+export interface SpeechChunk {
+  index: number;
+  verses: Verse[]; // Consecutive verses narrated by this chunk
+  intro?: string; // Spoken before the verses, e.g. the book and chapter announcement
+  text: string;
+}
+
+/** Base64-encoded 16-bit PCM as returned by the TTS model. */
+export interface SpeechAudio {
+  data: string;
+  sampleRate: number;
+  channels: number;
+}
+
+export type ReadingStyle = 'calm' | 'liturgical' | 'children';
+export type ChineseDialect = 'mandarin' | 'cantonese';
+export type SpeechLanguage = ChineseDialect | 'english';
+
+export interface TtsSettings {
+  voice: string; // Gemini prebuilt voice name
+  style: ReadingStyle;
+  announceChapter: boolean; // Read the book and chapter before the first verse
+  dialect: ChineseDialect; // Used for Chinese translations; English ones are read in English
+}
+
+export type TtsEngineId = 'gemini' | 'browser';
+
+export type ThemeMode = 'system' | 'light' | 'sepia' | 'dark'; // 'system' follows prefers-color-scheme
+export type ReaderFont = 'serif' | 'sans';
+export type ReaderMargin = 'narrow' | 'normal' | 'wide';
+
+export interface AppearanceSettings {
+  theme: ThemeMode;
+  lineHeight: number;
+  margin: ReaderMargin;
+  font: ReaderFont;
+  vertical: boolean; // 直排, only applied to Chinese translations
+  showVerseNumbers: boolean;
+  showHeadings: boolean;
+}
+
+export interface SpeechOptions {
+  voice: string;
+  style: ReadingStyle;
+  language: SpeechLanguage;
+}
+
+export interface VerseTiming {
+  verse: number;
+  start: number; // Seconds on the chapter audio timeline
+  end: number;
+}
+
+export interface ImportedChapter {
+  bookId: string;
+  chapter: number;
+  verses: Verse[];
+  headings: SectionHeading[];
+}
+
+export interface TextProvider {
+  id: string;
+  label: string;
+  isGenerated?: boolean; // True when the text is produced by a model rather than a canonical source
+  getChapter: (book: BibleBook, chapter: number, translation: string, signal?: AbortSignal) => Promise<ChapterContent | null>;
+}
+
+/** Passage for the study companion; no verses means the whole chapter. */
+export interface StudyPassage extends ChapterRef {
+  verses: number[];
+}
+
+export interface StudyCrossReference {
+  reference: string; // As written by the model, e.g. 羅馬書 5:8
+  note: string;
+}
+
+/** AI-generated study notes for a passage. */
+export interface PassageStudy {
+  summary: string;
+  context: string; // Historical and literary background
+  crossReferences: StudyCrossReference[];
+  questions: string[]; // For small-group discussion
+  generatedAt: string; // ISO timestamp
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export interface VerseAnnotation {
+  bookId: string;
+  chapter: number;
+  verse: number;
+  highlight?: HighlightColor;
+  bookmarked?: boolean;
+  note?: string;
+  noteEndVerse?: number; // Last verse the note covers when it was written for several verses
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** SM-2 spaced-repetition state of a memory verse. */
+export interface ReviewSchedule {
+  repetitions: number; // Successful reviews in a row
+  interval: number; // Days between the last review and the next
+  ease: number; // Easiness factor, at least 1.3
+  dueDate: string; // YYYY-MM-DD
+  lastReviewedAt?: string;
+}
+
+/** A verse or verse range saved for memorization, with its text in the translation it was saved from. */
+export interface MemoryVerse {
+  bookId: string;
+  chapter: number;
+  verse: number;
+  endVerse?: number;
+  translation: string;
+  text: string;
+  schedule: ReviewSchedule;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchFilter {
+  testament?: 'Old' | 'New';
+  bookId?: string;
+}
+
+export interface SearchResult {
+  bookId: string;
+  chapter: number;
+  verse: number;
+  snippet: { text: string; match: boolean }[]; // Verse text split into highlighted and plain parts
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number; // Matches before the result limit was applied
+  indexedChapters: number; // 0 when no chapter text is stored locally
+}
+
+export type SleepTimerOption = 'off' | 'chapter' | number; // number = minutes
+
 export enum AudioState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -0,0 +1,9 @@
+
+// 檢查匯入的 JSON（備份檔、聖經檔）時共用的型別縮小工具
+
+/** A plain JSON object whose fields can be checked one by one; arrays and null are excluded. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** `Number.isInteger` as a type guard, for fields of untrusted JSON. */
+export const isInteger = (value: unknown): value is number => Number.isInteger(value);
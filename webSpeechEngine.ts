@@ -0,0 +1,204 @@
+
+import { SpeechLanguage } from './types';
+import { LoadResult, NarrationPlayer, SpeechRequest, TtsEngine } from './ttsEngine';
+
+// 以瀏覽器內建的 speechSynthesis 逐節朗讀；沒有音訊可量測，時間軸依字數估算
+interface SpeechSegment {
+  text: string;
+  verse: number | null; // null for the chapter announcement
+  start: number; // Estimated seconds on the chapter timeline at rate 1
+  duration: number;
+}
+
+// 每秒朗讀字數的粗略估計（英文以字母計）
+const CHARS_PER_SECOND: Record<SpeechLanguage, number> = { mandarin: 4.5, cantonese: 4.5, english: 14 };
+const SEGMENT_PAUSE_SECONDS = 0.4;
+
+// 依序嘗試的語音語言；國語優先使用台灣，其次大陸的語音
+const PREFERRED_LANGS: Record<SpeechLanguage, string[]> = {
+  mandarin: ['zh-TW', 'zh-CN', 'zh'],
+  cantonese: ['zh-HK', 'yue', 'zh-TW'],
+  english: ['en-US', 'en-GB', 'en'],
+};
+
+const VOICES_TIMEOUT_MS = 1000;
+
+/** The best installed voice for a language, or null to let the browser choose by `lang`. */
+export const pickSpeechVoice = (voices: SpeechSynthesisVoice[], language: SpeechLanguage) => {
+  for (const lang of PREFERRED_LANGS[language]) {
+    const voice = voices.find(v => v.lang.replace('_', '-').toLowerCase().startsWith(lang.toLowerCase()));
+    if (voice) return voice;
+  }
+  return null;
+};
+
+// Some browsers only list voices after the voiceschanged event
+const loadVoices = () => new Promise<SpeechSynthesisVoice[]>(resolve => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return resolve(voices);
+  const done = () => {
+    window.speechSynthesis.removeEventListener('voiceschanged', done);
+    window.clearTimeout(timer);
+    resolve(window.speechSynthesis.getVoices());
+  };
+  const timer = window.setTimeout(done, VOICES_TIMEOUT_MS);
+  window.speechSynthesis.addEventListener('voiceschanged', done);
+});
+
+/**
+ * Speaks one utterance per verse. Pausing cancels speech and resumes from the
+ * start of the current verse, since speechSynthesis.pause() is unreliable on
+ * mobile browsers.
+ */
+export class WebSpeechPlayer implements NarrationPlayer {
+  onEnded: (() => void) | null = null;
+  private segments: SpeechSegment[] = [];
+  private voice: SpeechSynthesisVoice | null = null;
+  private lang = PREFERRED_LANGS.mandarin[0];
+  private rate = 1;
+  private index = 0; // Segment being spoken
+  private offset = 0; // Position in seconds while paused
+  private startedAt = 0; // Date.now() when the current segment started
+  private playing = false;
+  private token = 0; // Incremented on cancel so events of cancelled utterances are ignored
+
+  get isLoaded() {
+    return this.segments.length > 0;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  // Every verse is available at once
+  get isBuffering() {
+    return false;
+  }
+
+  get duration() {
+    const last = this.segments[this.segments.length - 1];
+    return last ? last.start + last.duration : 0;
+  }
+
+  get position() {
+    if (!this.playing) return this.offset;
+    const segment = this.segments[this.index];
+    const elapsed = ((Date.now() - this.startedAt) / 1000) * this.rate;
+    return segment.start + Math.min(elapsed, segment.duration);
+  }
+
+  load(segments: SpeechSegment[], voice: SpeechSynthesisVoice | null, lang: string) {
+    this.unload();
+    this.segments = segments;
+    this.voice = voice;
+    this.lang = voice?.lang.replace('_', '-') ?? lang;
+  }
+
+  play(from: number = this.offset) {
+    if (!this.isLoaded) return;
+    const target = from >= this.duration ? 0 : Math.max(0, from);
+    const index = this.segments.findIndex(s => target < s.start + s.duration);
+    this.playing = true;
+    this.speak(Math.max(0, index));
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.offset = this.segments[this.index].start;
+    this.playing = false;
+    this.cancel();
+  }
+
+  seek(time: number) {
+    const target = Math.max(0, Math.min(time, this.duration));
+    if (this.playing) {
+      this.play(target);
+    } else {
+      this.offset = target;
+    }
+  }
+
+  /** Takes effect from the next verse. */
+  setPlaybackRate(rate: number) {
+    this.rate = rate;
+  }
+
+  // Utterance volume cannot change while speaking, so only wait out the fade
+  fadeOut(seconds: number) {
+    return new Promise<void>(resolve => window.setTimeout(resolve, seconds * 1000));
+  }
+
+  restoreVolume() {}
+
+  unload() {
+    this.cancel();
+    this.playing = false;
+    this.segments = [];
+    this.offset = 0;
+  }
+
+  private speak(index: number) {
+    this.cancel();
+    const token = this.token;
+    const segment = this.segments[index];
+    const utterance = new SpeechSynthesisUtterance(segment.text);
+    utterance.lang = this.lang;
+    if (this.voice) utterance.voice = this.voice;
+    utterance.rate = this.rate;
+    // A failed verse is skipped rather than stopping the chapter
+    utterance.onend = utterance.onerror = () => {
+      if (token === this.token) this.next();
+    };
+    this.index = index;
+    this.startedAt = Date.now();
+    window.speechSynthesis.speak(utterance);
+  }
+
+  private next() {
+    if (this.index + 1 < this.segments.length) {
+      this.speak(this.index + 1);
+      return;
+    }
+    this.playing = false;
+    this.offset = 0;
+    this.onEnded?.();
+  }
+
+  private cancel() {
+    this.token++;
+    if (this.isLoaded) window.speechSynthesis.cancel();
+  }
+}
+
+/** Offline fallback that needs neither an API key nor a network connection. */
+export class WebSpeechEngine implements TtsEngine {
+  readonly id = 'browser';
+  readonly player = new WebSpeechPlayer();
+
+  isAvailable() {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  async load({ chunks, speech, isCancelled, onTimings, onReady }: SpeechRequest): Promise<LoadResult> {
+    const voices = await loadVoices();
+    if (isCancelled()) return { remaining: chunks };
+
+    const segments: SpeechSegment[] = [];
+    let cursor = 0;
+    const add = (text: string, verse: number | null) => {
+      const duration = text.length / CHARS_PER_SECOND[speech.language] + SEGMENT_PAUSE_SECONDS;
+      segments.push({ text, verse, start: cursor, duration });
+      cursor += duration;
+    };
+    for (const chunk of chunks) {
+      if (chunk.intro) add(chunk.intro, null);
+      for (const verse of chunk.verses) add(verse.text, verse.number);
+    }
+    if (segments.length === 0) throw new Error("SPEECH_EMPTY");
+
+    this.player.load(segments, pickSpeechVoice(voices, speech.language), PREFERRED_LANGS[speech.language][0]);
+    onTimings(segments.flatMap(s => s.verse === null ? [] : [{ verse: s.verse, start: s.start, end: s.start + s.duration }]));
+    onReady();
+    return { remaining: [] };
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from './zipArchive';
+
+describe('buildZip', () => {
+  it('stores each file with its CRC and a central directory', async () => {
+    const zip = await buildZip([
+      { name: '創世記 01.wav', data: new Blob(['hello']) },
+      { name: '創世記.m3u8', data: new Blob(['#EXTM3U\n']) },
+    ], new Date(2026, 0, 10, 9, 30, 20));
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const name = new TextEncoder().encode('創世記 01.wav');
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800); // UTF-8 names
+    expect(view.getUint16(10, true)).toBe((9 << 11) | (30 << 5) | 10);
+    expect(view.getUint16(12, true)).toBe((46 << 9) | (1 << 5) | 10);
+    expect(view.getUint32(14, true)).toBe(0x3610a686); // CRC-32 of "hello"
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(bytes.subarray(30, 30 + name.length)).toEqual(name);
+    expect(new TextDecoder().decode(bytes.subarray(30 + name.length, 35 + name.length))).toBe('hello');
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+    expect(view.getUint32(directoryOffset + 42, true)).toBe(0); // First local header
+    expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
@@ -0,0 +1,88 @@
+
+// 將多個檔案打包成單一 ZIP（不壓縮），讓多章匯出只需一次下載
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = (crc >>> 8) ^ CRC_TABLE[(crc ^ byte) & 0xff];
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const UTF8_NAMES = 0x0800; // General purpose flag: file names are UTF-8
+const MAX_ZIP_BYTES = 0xffffffff; // Without Zip64, sizes and offsets are 32-bit
+
+// MS-DOS date and time fields, in local time with two-second resolution
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Header fields shared by the local file header (from offset 4) and the central directory (from offset 6). */
+const writeEntryFields = (view: DataView, offset: number, entry: { crc: number; size: number; name: Uint8Array }, stamp: { time: number; date: number }) => {
+  view.setUint16(offset, 20, true); // Version needed to extract: 2.0
+  view.setUint16(offset + 2, UTF8_NAMES, true);
+  view.setUint16(offset + 4, 0, true); // Stored, no compression
+  view.setUint16(offset + 6, stamp.time, true);
+  view.setUint16(offset + 8, stamp.date, true);
+  view.setUint32(offset + 10, entry.crc, true);
+  view.setUint32(offset + 14, entry.size, true); // Compressed size
+  view.setUint32(offset + 18, entry.size, true); // Uncompressed size
+  view.setUint16(offset + 22, entry.name.length, true);
+  view.setUint16(offset + 24, 0, true); // Extra field length
+};
+
+/** A ZIP archive holding the entries uncompressed; audio is already compressed or doesn't shrink much. */
+export const buildZip = async (entries: ZipEntry[], modified: Date = new Date()) => {
+  const stamp = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const fields = { crc: crc32(data), size: data.length, name: encoder.encode(entry.name) };
+
+    const local = new Uint8Array(30 + fields.name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    writeEntryFields(localView, 4, fields, stamp);
+    local.set(fields.name, 30);
+
+    const central = new Uint8Array(46 + fields.name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Version made by: 2.0
+    writeEntryFields(centralView, 6, fields, stamp);
+    // File comment length, disk number and attributes stay zero
+    centralView.setUint32(42, offset, true); // Offset of the local header
+    central.set(fields.name, 46);
+
+    parts.push(local, data);
+    directory.push(central);
+    offset += local.length + data.length;
+    if (offset > MAX_ZIP_BYTES) throw new Error("ZIP_TOO_LARGE");
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Total entries
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true); // Offset of the central directory
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+};